@@ -0,0 +1,63 @@
+/**
+ * Atomic file writes for /output
+ *
+ * meta-sort watches /output, so a file must never be visible there half-written.
+ * Data goes to a hidden temp file in the same directory first and is renamed into
+ * place, which is atomic on the same filesystem.
+ */
+
+import { closeSync, existsSync, fsyncSync, openSync, readdirSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import { randomBytes } from 'crypto';
+import * as path from 'path';
+
+const TEMP_SUFFIX = '.partial';
+
+function tempPathFor(filePath: string): string {
+    return path.join(path.dirname(filePath), `.${path.basename(filePath)}.${randomBytes(4).toString('hex')}${TEMP_SUFFIX}`);
+}
+
+/**
+ * Write a file through a hidden temp file and rename it into place
+ * The temp file is removed if anything fails, so no partial data is left behind.
+ */
+export function writeFileAtomic(filePath: string, data: Buffer | string): void {
+    const tempPath = tempPathFor(filePath);
+    try {
+        const fd = openSync(tempPath, 'w');
+        try {
+            // Unlike a single writeSync, this keeps writing until every byte is on disk
+            writeFileSync(fd, data);
+            fsyncSync(fd);
+        } finally {
+            closeSync(fd);
+        }
+        renameSync(tempPath, filePath);
+    } catch (e) {
+        try { unlinkSync(tempPath); } catch {}
+        throw e;
+    }
+}
+
+/**
+ * Delete temp files left by interrupted writes, in a directory and its subdirectories
+ * Returns the number of files removed.
+ */
+export function removeTempFiles(dir: string): number {
+    if (!existsSync(dir)) return 0;
+
+    let removed = 0;
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            removed += removeTempFiles(entryPath);
+        } else if (entry.name.startsWith('.') && entry.name.endsWith(TEMP_SUFFIX)) {
+            try {
+                unlinkSync(entryPath);
+                removed++;
+            } catch (e) {
+                console.warn(`[subtitle-extractor] Could not remove leftover temp file ${entryPath}: ${e}`);
+            }
+        }
+    }
+    return removed;
+}
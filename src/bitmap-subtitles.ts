@@ -0,0 +1,447 @@
+/**
+ * Image-based subtitles kept as bitmap tracks or decoded for OCR
+ *
+ * PGS streams are copied to `.sup` files by ffmpeg directly. ffmpeg has no VobSub
+ * muxer, so DVD subtitle packets are copied into a small Matroska file first and
+ * written out here as a `.sub` (MPEG program stream) plus its `.idx` index.
+ *
+ * Both formats can also be decoded into one grayscale bitmap per subtitle, the
+ * input of the OCR stage.
+ */
+
+export type BitmapFormat = 'sup' | 'sub';
+
+// Image-based codecs that can be kept losslessly, and the file they are published as
+export const BITMAP_FORMAT: Record<string, BitmapFormat> = {
+    'hdmv_pgs_subtitle': 'sup',
+    'pgssub': 'sup',
+    'dvd_subtitle': 'sub',
+    'dvdsub': 'sub',
+};
+
+export interface SpuPacket {
+    // Presentation time in milliseconds
+    pts: number;
+    data: Buffer;
+}
+
+/**
+ * One decoded subtitle image with its display time
+ */
+export interface SubtitleBitmap {
+    start: number; // milliseconds
+    end: number; // milliseconds
+    width: number;
+    height: number;
+    // One byte per pixel, row by row: 0 for fully visible bright pixels (the text), 255 for background and outlines
+    pixels: Uint8Array;
+}
+
+// Display time of a subtitle that is never explicitly hidden
+const DEFAULT_DURATION_MS = 5000;
+
+// PGS segment types
+const PGS_PALETTE = 0x14;
+const PGS_OBJECT = 0x15;
+const PGS_COMPOSITION = 0x16;
+const PGS_END = 0x80;
+
+// VobSub files are made of fixed-size MPEG-2 packs
+const PACK_SIZE = 2048;
+const PACK_HEADER_SIZE = 14;
+// Start code, length, flags and header length of a private stream 1 PES packet
+const PES_HEADER_SIZE = 9;
+const PTS_SIZE = 5;
+// First subpicture stream
+const SUBSTREAM_ID = 0x20;
+// Program mux rate in units of 50 bytes/s, as written by DVD authoring tools
+const MUX_RATE = 25200;
+
+// Used when the source carries no VobSub header (e.g. streams copied from a VOB)
+const DEFAULT_IDX_HEADER = [
+    'size: 720x480',
+    'palette: 000000, 828282, 828282, 828282, 828282, 828282, 828282, ffffff, 828282, bababa, 828282, 828282, 828282, 828282, 828282, 828282',
+].join('\n');
+
+/**
+ * Decode the hex dump ffprobe prints for `-show_data`
+ * Lines look like `00000000: 0000 01ba 4400 0400 0401 0189 c3f8 0000  ......D.........`.
+ */
+export function parseHexDump(dump: string): Buffer {
+    const hex = dump
+        .split('\n')
+        .map(line => line.slice(10, 50).replace(/\s/g, ''))
+        .join('');
+    return Buffer.from(hex, 'hex');
+}
+
+function encodeScr(buffer: Buffer, offset: number, ticks: number): void {
+    // '01', SCR base [32..30], marker, [29..15], marker, [14..0], marker, 9-bit extension (0), marker
+    const high = Math.floor(ticks / 2 ** 30) & 0x07;
+    const mid = Math.floor(ticks / 2 ** 15) & 0x7fff;
+    const low = ticks & 0x7fff;
+    buffer[offset] = 0x44 | (high << 3) | (mid >> 13);
+    buffer[offset + 1] = (mid >> 5) & 0xff;
+    buffer[offset + 2] = ((mid & 0x1f) << 3) | 0x04 | (low >> 13);
+    buffer[offset + 3] = (low >> 5) & 0xff;
+    buffer[offset + 4] = ((low & 0x1f) << 3) | 0x04;
+    buffer[offset + 5] = 0x01;
+}
+
+function encodePts(buffer: Buffer, offset: number, ticks: number): void {
+    // '0010', PTS [32..30], marker, [29..15], marker, [14..0], marker
+    const high = Math.floor(ticks / 2 ** 30) & 0x07;
+    const mid = Math.floor(ticks / 2 ** 15) & 0x7fff;
+    const low = ticks & 0x7fff;
+    buffer[offset] = 0x21 | (high << 1);
+    buffer.writeUInt16BE((mid << 1) | 1, offset + 1);
+    buffer.writeUInt16BE((low << 1) | 1, offset + 3);
+}
+
+/**
+ * Wrap one subpicture into as many 2048-byte packs as it needs
+ */
+function packSpu(packet: SpuPacket): Buffer[] {
+    const ticks = Math.max(0, Math.round(packet.pts * 90));
+    const packs: Buffer[] = [];
+    let offset = 0;
+
+    while (offset < packet.data.length) {
+        const first = offset === 0;
+        const headerSize = PACK_HEADER_SIZE + PES_HEADER_SIZE + (first ? PTS_SIZE : 0) + 1;
+        const capacity = PACK_SIZE - headerSize;
+        let chunk = Math.min(packet.data.length - offset, capacity);
+        // A padding packet needs at least 6 bytes; leave room for one or fill the pack exactly
+        const spare = capacity - chunk;
+        if (spare > 0 && spare < 6) chunk -= 6 - spare;
+
+        const pack = Buffer.alloc(PACK_SIZE, 0xff);
+        pack.writeUInt32BE(0x000001ba, 0);
+        encodeScr(pack, 4, ticks);
+        pack.writeUIntBE((MUX_RATE << 2) | 0x03, 10, 3);
+        pack[13] = 0xf8;
+
+        let pos = PACK_HEADER_SIZE;
+        pack.writeUInt32BE(0x000001bd, pos);
+        pack.writeUInt16BE(3 + (first ? PTS_SIZE : 0) + 1 + chunk, pos + 4);
+        pack[pos + 6] = 0x81;
+        pack[pos + 7] = first ? 0x80 : 0x00;
+        pack[pos + 8] = first ? PTS_SIZE : 0;
+        pos += PES_HEADER_SIZE;
+        if (first) {
+            encodePts(pack, pos, ticks);
+            pos += PTS_SIZE;
+        }
+        pack[pos++] = SUBSTREAM_ID;
+        packet.data.copy(pack, pos, offset, offset + chunk);
+        pos += chunk;
+        offset += chunk;
+
+        if (pos < PACK_SIZE) {
+            pack.writeUInt32BE(0x000001be, pos);
+            pack.writeUInt16BE(PACK_SIZE - pos - 6, pos + 4);
+        }
+        packs.push(pack);
+    }
+    return packs;
+}
+
+function formatIdxTime(ms: number): string {
+    const total = Math.max(0, Math.round(ms));
+    const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+    return `${pad(Math.floor(total / 3600000))}:${pad(Math.floor(total / 60000) % 60)}:${pad(Math.floor(total / 1000) % 60)}:${pad(total % 1000, 3)}`;
+}
+
+/**
+ * Build the `.sub` and `.idx` files of a VobSub track
+ *
+ * `header` is the idx header stored as codec private data in Matroska (size, palette, ...);
+ * `language` is a two-letter code, or empty when unknown.
+ */
+export function buildVobSub(packets: SpuPacket[], header: string, language: string): { sub: Buffer; idx: string } {
+    const packs: Buffer[] = [];
+    const entries: string[] = [];
+    for (const packet of [...packets].sort((a, b) => a.pts - b.pts)) {
+        if (packet.data.length === 0) continue;
+        entries.push(`timestamp: ${formatIdxTime(packet.pts)}, filepos: ${(packs.length * PACK_SIZE).toString(16).padStart(9, '0')}`);
+        packs.push(...packSpu(packet));
+    }
+
+    const idx = [
+        '# VobSub index file, v7 (do not modify this line!)',
+        (header.replace(/\0/g, '').trim() || DEFAULT_IDX_HEADER),
+        '',
+        'langidx: 0',
+        '',
+        `id: ${language || '--'}, index: 0`,
+        ...entries,
+        '',
+    ].join('\n');
+
+    return { sub: Buffer.concat(packs), idx };
+}
+
+/**
+ * Gray level of a palette entry: bright opaque colors become dark, the rest fades to white
+ */
+function inkLevel(luminance: number, alpha: number): number {
+    return 255 - Math.round((luminance * alpha) / 255);
+}
+
+function blankBitmap(start: number, end: number, width: number, height: number): SubtitleBitmap {
+    return { start, end, width, height, pixels: new Uint8Array(width * height).fill(255) };
+}
+
+/**
+ * Decode PGS run-length data to palette indices
+ */
+function decodePgsRle(rle: Buffer, width: number, height: number): Uint8Array {
+    const indices = new Uint8Array(width * height);
+    let x = 0;
+    let y = 0;
+    let i = 0;
+    while (i < rle.length && y < height) {
+        let color = rle[i++];
+        let run = 1;
+        if (color === 0) {
+            const flags = rle[i++] ?? 0;
+            if (flags === 0) {
+                x = 0;
+                y++;
+                continue;
+            }
+            run = flags & 0x3f;
+            if (flags & 0x40) run = (run << 8) | (rle[i++] ?? 0);
+            color = flags & 0x80 ? rle[i++] ?? 0 : 0;
+        }
+        if (x < width) {
+            indices.fill(color, y * width + x, y * width + Math.min(x + run, width));
+        }
+        x += run;
+    }
+    return indices;
+}
+
+/**
+ * Decode a `.sup` file into one bitmap per displayed subtitle
+ *
+ * A display set whose composition places objects shows them until the next
+ * display set; objects placed side by side are drawn into one image.
+ */
+export function decodePgs(data: Buffer): SubtitleBitmap[] {
+    const bitmaps: SubtitleBitmap[] = [];
+    const palettes = new Map<number, Uint8Array>();
+    const objects = new Map<number, { width: number; height: number; rle: Buffer[] }>();
+    let composition: { pts: number; paletteId: number; paletteOnly: boolean; placements: Array<{ id: number; x: number; y: number }> } | null = null;
+    let shown: SubtitleBitmap | null = null;
+
+    let offset = 0;
+    while (offset + 13 <= data.length) {
+        if (data.readUInt16BE(offset) !== 0x5047) {
+            throw new Error(`Invalid PGS segment at byte ${offset}`);
+        }
+        const pts = data.readUInt32BE(offset + 2) / 90;
+        const type = data[offset + 10];
+        const size = data.readUInt16BE(offset + 11);
+        const segment = data.subarray(offset + 13, offset + 13 + size);
+        offset += 13 + size;
+
+        if (type === PGS_COMPOSITION && segment.length >= 11) {
+            // A new epoch starts with a clean slate of objects and palettes
+            if (segment[7] & 0x80) {
+                objects.clear();
+                palettes.clear();
+            }
+            const placements: Array<{ id: number; x: number; y: number }> = [];
+            for (let i = 0, pos = 11; i < segment[10] && pos + 8 <= segment.length; i++) {
+                placements.push({ id: segment.readUInt16BE(pos), x: segment.readUInt16BE(pos + 4), y: segment.readUInt16BE(pos + 6) });
+                pos += segment[pos + 3] & 0x80 ? 16 : 8;
+            }
+            composition = { pts, paletteId: segment[9], paletteOnly: (segment[8] & 0x80) !== 0, placements };
+        } else if (type === PGS_PALETTE && segment.length >= 2) {
+            const palette = palettes.get(segment[0]) ?? new Uint8Array(256).fill(255);
+            for (let pos = 2; pos + 5 <= segment.length; pos += 5) {
+                // Luminance is in video range (16-235)
+                const luminance = Math.min(255, Math.max(0, ((segment[pos + 1] - 16) * 255) / 219));
+                palette[segment[pos]] = inkLevel(luminance, segment[pos + 4]);
+            }
+            palettes.set(segment[0], palette);
+        } else if (type === PGS_OBJECT && segment.length >= 4) {
+            const id = segment.readUInt16BE(0);
+            if (segment[3] & 0x80) {
+                if (segment.length < 11) continue;
+                objects.set(id, { width: segment.readUInt16BE(7), height: segment.readUInt16BE(9), rle: [segment.subarray(11)] });
+            } else {
+                objects.get(id)?.rle.push(segment.subarray(4));
+            }
+        } else if (type === PGS_END && composition) {
+            if (composition.paletteOnly && shown) continue;
+
+            if (shown) {
+                shown.end = composition.pts;
+                bitmaps.push(shown);
+                shown = null;
+            }
+            const placed = composition.placements.flatMap(p => {
+                const object = objects.get(p.id);
+                return object && object.width > 0 && object.height > 0 ? [{ ...p, object }] : [];
+            });
+            if (placed.length === 0) continue;
+
+            const left = Math.min(...placed.map(p => p.x));
+            const top = Math.min(...placed.map(p => p.y));
+            const right = Math.max(...placed.map(p => p.x + p.object.width));
+            const bottom = Math.max(...placed.map(p => p.y + p.object.height));
+            const bitmap = blankBitmap(composition.pts, composition.pts + DEFAULT_DURATION_MS, right - left, bottom - top);
+            const palette = palettes.get(composition.paletteId) ?? new Uint8Array(256).fill(255);
+
+            for (const { x, y, object } of placed) {
+                const indices = decodePgsRle(Buffer.concat(object.rle), object.width, object.height);
+                for (let row = 0; row < object.height; row++) {
+                    const target = (y - top + row) * bitmap.width + (x - left);
+                    for (let col = 0; col < object.width; col++) {
+                        bitmap.pixels[target + col] = Math.min(bitmap.pixels[target + col], palette[indices[row * object.width + col]]);
+                    }
+                }
+            }
+            shown = bitmap;
+        }
+    }
+
+    if (shown) bitmaps.push(shown);
+    return bitmaps;
+}
+
+/**
+ * Luminance of the 16 palette colors in an idx header, if it has a palette
+ */
+function parseIdxPalette(header: string): number[] {
+    const line = header.split('\n').find(l => l.trim().toLowerCase().startsWith('palette:'))
+        ?? DEFAULT_IDX_HEADER.split('\n')[1];
+    return line
+        .slice(line.indexOf(':') + 1)
+        .split(',')
+        .map(color => {
+            const rgb = parseInt(color.trim(), 16) || 0;
+            return 0.299 * ((rgb >> 16) & 0xff) + 0.587 * ((rgb >> 8) & 0xff) + 0.114 * (rgb & 0xff);
+        });
+}
+
+/**
+ * Decode the interlaced, nibble-coded run lengths of one field of a subpicture
+ */
+function decodeSpuField(data: Buffer, start: number, width: number, rows: number[], colorOf: (index: number) => number, bitmap: SubtitleBitmap): void {
+    let nibble = start * 2;
+    const next = (): number => {
+        const byte = data[nibble >> 1] ?? 0;
+        const value = nibble & 1 ? byte & 0x0f : byte >> 4;
+        nibble++;
+        return value;
+    };
+
+    for (const row of rows) {
+        let x = 0;
+        while (x < width && nibble >> 1 < data.length) {
+            let value = next();
+            if (value < 0x4) {
+                value = (value << 4) | next();
+                if (value < 0x10) {
+                    value = (value << 4) | next();
+                    if (value < 0x40) value = (value << 4) | next();
+                }
+            }
+            // A run of zero length fills the rest of the line
+            const run = value >> 2 || width - x;
+            bitmap.pixels.fill(colorOf(value & 0x03), row * width + x, row * width + Math.min(x + run, width));
+            x += run;
+        }
+        // Lines start on a byte boundary
+        if (nibble & 1) nibble++;
+    }
+}
+
+/**
+ * Decode VobSub subpicture packets into one bitmap each
+ *
+ * `header` is the idx header holding the palette; a subpicture without a stop
+ * command stays up until the next one.
+ */
+export function decodeVobSub(packets: SpuPacket[], header: string): SubtitleBitmap[] {
+    const palette = parseIdxPalette(header);
+    const sorted = [...packets].sort((a, b) => a.pts - b.pts);
+    const bitmaps: SubtitleBitmap[] = [];
+
+    sorted.forEach((packet, i) => {
+        const data = packet.data;
+        if (data.length < 4) return;
+        const size = Math.min(data.readUInt16BE(0), data.length);
+        const colors = [0, 0, 0, 0];
+        const alpha = [0, 0, 0, 0];
+        let area: { x1: number; x2: number; y1: number; y2: number } | null = null;
+        let fields: { top: number; bottom: number } | null = null;
+        let startDelay: number | null = null;
+        let stopDelay: number | null = null;
+
+        // Control sequences form a chain; the last one points at itself
+        let control = data.readUInt16BE(2);
+        for (let guard = 0; guard < 64 && control + 4 <= size; guard++) {
+            const delay = (data.readUInt16BE(control) * 1024) / 90;
+            const nextControl = data.readUInt16BE(control + 2);
+            let pos = control + 4;
+            commands: while (pos < size) {
+                switch (data[pos++]) {
+                    case 0x00:
+                    case 0x01:
+                        startDelay ??= delay;
+                        break;
+                    case 0x02:
+                        stopDelay ??= delay;
+                        break;
+                    case 0x03:
+                    case 0x04: {
+                        const target = data[pos - 1] === 0x03 ? colors : alpha;
+                        target[3] = data[pos] >> 4;
+                        target[2] = data[pos] & 0x0f;
+                        target[1] = data[pos + 1] >> 4;
+                        target[0] = data[pos + 1] & 0x0f;
+                        pos += 2;
+                        break;
+                    }
+                    case 0x05:
+                        area = {
+                            x1: (data[pos] << 4) | (data[pos + 1] >> 4),
+                            x2: ((data[pos + 1] & 0x0f) << 8) | data[pos + 2],
+                            y1: (data[pos + 3] << 4) | (data[pos + 4] >> 4),
+                            y2: ((data[pos + 4] & 0x0f) << 8) | data[pos + 5],
+                        };
+                        pos += 6;
+                        break;
+                    case 0x06:
+                        fields = { top: data.readUInt16BE(pos), bottom: data.readUInt16BE(pos + 2) };
+                        pos += 4;
+                        break;
+                    default:
+                        // 0xff ends the sequence; anything else cannot be skipped safely
+                        break commands;
+                }
+            }
+            if (nextControl === control) break;
+            control = nextControl;
+        }
+
+        if (!area || !fields || area.x2 < area.x1 || area.y2 < area.y1) return;
+        const width = area.x2 - area.x1 + 1;
+        const height = area.y2 - area.y1 + 1;
+        const start = packet.pts + (startDelay ?? 0);
+        const end = stopDelay !== null ? packet.pts + stopDelay : sorted[i + 1]?.pts ?? start + DEFAULT_DURATION_MS;
+        const bitmap = blankBitmap(start, end, width, height);
+        const colorOf = (index: number) => inkLevel(palette[colors[index]] ?? 0, (alpha[index] * 255) / 15);
+
+        const rows = Array.from({ length: height }, (_, row) => row);
+        decodeSpuField(data, fields.top, width, rows.filter(row => row % 2 === 0), colorOf, bitmap);
+        decodeSpuField(data, fields.bottom, width, rows.filter(row => row % 2 === 1), colorOf, bitmap);
+        bitmaps.push(bitmap);
+    });
+
+    return bitmaps;
+}
@@ -0,0 +1,207 @@
+/**
+ * Reliable callback delivery
+ *
+ * Every callback is written to an outbox under /cache before it is sent and only
+ * removed once meta-sort acknowledged it. Failed sends are retried with exponential
+ * backoff and jitter; entries still on disk after a restart are re-sent on boot.
+ * Callbacks that exhaust their retries (or are refused outright) are moved to
+ * `failed/` so they stay inspectable without being retried forever.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, unlinkSync } from 'fs';
+import * as path from 'path';
+import type { CallbackPayload } from './types.js';
+import { writeFileAtomic, removeTempFiles } from './atomic-write.js';
+
+interface OutboxEntry {
+    id: string;
+    callbackUrl: string;
+    payload: CallbackPayload;
+    attempts: number;
+    createdAt: string;
+    lastError?: string;
+}
+
+export interface FailedCallback {
+    taskId: string;
+    callbackUrl: string;
+    attempts: number;
+    error: string;
+    failedAt: string;
+}
+
+export interface OutboxStats {
+    pending: number;
+    delivered: number;
+    retries: number;
+    failed: FailedCallback[];
+}
+
+const MAX_ATTEMPTS = 10;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+// Failures kept in memory for diagnostics
+const FAILED_HISTORY_LIMIT = 50;
+
+/**
+ * Backoff before the given retry (1-based), with up to 50% random jitter
+ * so many pending callbacks do not hit meta-sort at the same instant
+ */
+function retryDelay(attempt: number): number {
+    const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+    return Math.round(delay * (0.5 + Math.random() * 0.5));
+}
+
+/**
+ * 4xx answers other than timeouts and rate limiting will not change on retry
+ */
+function isPermanent(status: number): boolean {
+    return status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+export class CallbackOutbox {
+    private pending = new Map<string, OutboxEntry>();
+    private delivered = 0;
+    private retries = 0;
+    private failed: FailedCallback[] = [];
+    private persistent = true;
+
+    constructor(private dir: string) {
+        try {
+            mkdirSync(path.join(dir, 'failed'), { recursive: true });
+        } catch (e) {
+            console.warn(`[subtitle-extractor] Callback outbox ${dir} not writable, callbacks are kept in memory only: ${e}`);
+            this.persistent = false;
+        }
+    }
+
+    /**
+     * Queue a callback and make the first delivery attempt
+     * Resolves after that attempt; retries continue in the background.
+     */
+    async send(callbackUrl: string, payload: CallbackPayload): Promise<void> {
+        const entry: OutboxEntry = {
+            id: `${Date.now()}-${payload.taskId.replace(/[^\w.-]/g, '_')}`,
+            callbackUrl,
+            payload,
+            attempts: 0,
+            createdAt: new Date().toISOString(),
+        };
+        this.pending.set(entry.id, entry);
+        this.persist(entry);
+        await this.attempt(entry);
+    }
+
+    /**
+     * Re-send callbacks left in the outbox by a previous run
+     */
+    resume(): number {
+        if (!this.persistent) return 0;
+        removeTempFiles(this.dir);
+
+        let count = 0;
+        for (const name of readdirSync(this.dir).filter(n => n.endsWith('.json'))) {
+            try {
+                const entry = JSON.parse(readFileSync(path.join(this.dir, name), 'utf-8')) as OutboxEntry;
+                if (this.pending.has(entry.id)) continue;
+                this.pending.set(entry.id, entry);
+                void this.attempt(entry);
+                count++;
+            } catch (e) {
+                console.warn(`[subtitle-extractor] Ignoring unreadable outbox entry ${name}: ${e}`);
+            }
+        }
+        if (count > 0) {
+            console.log(`[subtitle-extractor] Re-sending ${count} undelivered callback(s)`);
+        }
+        return count;
+    }
+
+    stats(): OutboxStats {
+        return {
+            pending: this.pending.size,
+            delivered: this.delivered,
+            retries: this.retries,
+            failed: this.failed,
+        };
+    }
+
+    private async attempt(entry: OutboxEntry): Promise<void> {
+        entry.attempts++;
+        if (entry.attempts > 1) this.retries++;
+
+        let permanent = false;
+        try {
+            const response = await fetch(entry.callbackUrl, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(entry.payload),
+                signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+            });
+            if (response.ok) {
+                this.delivered++;
+                this.pending.delete(entry.id);
+                this.remove(entry);
+                return;
+            }
+            permanent = isPermanent(response.status);
+            entry.lastError = `HTTP ${response.status}`;
+        } catch (error) {
+            entry.lastError = error instanceof Error ? error.message : String(error);
+        }
+
+        if (permanent || entry.attempts >= MAX_ATTEMPTS) {
+            this.giveUp(entry);
+            return;
+        }
+
+        const delay = retryDelay(entry.attempts);
+        console.warn(`[subtitle-extractor] Callback for task ${entry.payload.taskId} failed (${entry.lastError}), retry ${entry.attempts}/${MAX_ATTEMPTS - 1} in ${delay}ms`);
+        this.persist(entry);
+        setTimeout(() => void this.attempt(entry), delay).unref();
+    }
+
+    private giveUp(entry: OutboxEntry): void {
+        console.error(`[subtitle-extractor] Giving up on callback for task ${entry.payload.taskId} after ${entry.attempts} attempt(s): ${entry.lastError}`);
+        this.pending.delete(entry.id);
+        this.failed.push({
+            taskId: entry.payload.taskId,
+            callbackUrl: entry.callbackUrl,
+            attempts: entry.attempts,
+            error: entry.lastError ?? 'unknown error',
+            failedAt: new Date().toISOString(),
+        });
+        this.failed.splice(0, Math.max(this.failed.length - FAILED_HISTORY_LIMIT, 0));
+
+        if (!this.persistent) return;
+        try {
+            this.persist(entry);
+            renameSync(this.entryPath(entry), path.join(this.dir, 'failed', `${entry.id}.json`));
+        } catch (e) {
+            console.warn(`[subtitle-extractor] Could not move failed callback ${entry.id}: ${e}`);
+        }
+    }
+
+    private entryPath(entry: OutboxEntry): string {
+        return path.join(this.dir, `${entry.id}.json`);
+    }
+
+    private persist(entry: OutboxEntry): void {
+        if (!this.persistent) return;
+        try {
+            writeFileAtomic(this.entryPath(entry), JSON.stringify(entry));
+        } catch (e) {
+            console.warn(`[subtitle-extractor] Could not write callback ${entry.id} to outbox: ${e}`);
+        }
+    }
+
+    private remove(entry: OutboxEntry): void {
+        if (!this.persistent) return;
+        try {
+            if (existsSync(this.entryPath(entry))) unlinkSync(this.entryPath(entry));
+        } catch (e) {
+            console.warn(`[subtitle-extractor] Could not remove delivered callback ${entry.id}: ${e}`);
+        }
+    }
+}
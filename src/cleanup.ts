@@ -0,0 +1,159 @@
+/**
+ * Subtitle text cleanup
+ *
+ * Optional rules applied to the parsed cues before they are written: hearing-impaired
+ * annotations, styling, advert cues and duplicate or empty cues. Each rule can be
+ * switched on separately; the input document is never modified.
+ */
+
+import type { SubtitleCue, SubtitleDocument } from './subtitles.js';
+
+export interface CleanupConfig {
+    stripHearingImpaired: boolean;
+    stripStyling: boolean;
+    removeAds: boolean;
+    adPattern: RegExp | null;
+    mergeCues: boolean;
+}
+
+// When cleanup changes a track, both versions are published: 'cleaned' under the normal name, 'raw' with a `.raw` tag
+export type SubtitleVariant = 'raw' | 'cleaned';
+
+export interface CleanupStats {
+    removed: number;
+    modified: number;
+    merged: number;
+}
+
+// Typical credit and advert lines added by subtitle sites and release groups. URLs only count
+// with `www.` or a scheme: dialogue mentions bare domains ("he works at Amazon.com").
+export const DEFAULT_AD_PATTERN = [
+    'subtitles? (?:by|from|ripped by)',
+    'sync(?:ed|hronized)?(?: and| &)? correct(?:ed|ions) by',
+    'transcript by',
+    'opensubtitles',
+    'addic7ed',
+    'subscene',
+    'podnapisi',
+    'yts\\.',
+    'yify',
+    'www\\.',
+    'https?://',
+].join('|');
+
+// Cues of the same text closer than this are merged into one
+const MERGE_GAP_MS = 100;
+
+// [DOOR CLOSES], (SIGHS), and similar sound descriptions
+const SOUND_ANNOTATION = /\[[^\]\n]*\]|\([^)\n]*\)/g;
+// "JOHN:" or "MAN 2:" speaker labels at the start of a line
+const SPEAKER_LABEL = /^(?:-\s*)?[A-Z][A-Z0-9 .'-]*:\s*/;
+const MUSIC_NOTES = /[♪♫]/g;
+
+export function isCleanupEnabled(config: CleanupConfig): boolean {
+    return config.stripHearingImpaired || config.stripStyling || config.removeAds || config.mergeCues;
+}
+
+/**
+ * Compile the configured advert pattern; empty means the built-in default
+ * Throws on an invalid regular expression.
+ */
+export function compileAdPattern(pattern: string | undefined): RegExp {
+    return new RegExp(pattern && pattern.trim() ? pattern : DEFAULT_AD_PATTERN, 'i');
+}
+
+function stripHearingImpaired(text: string): string {
+    return text
+        .split('\n')
+        .map(line => {
+            // Notes are dropped, so lines that only carry music ("♪ ♪", "♪ [music] ♪") end up empty
+            // while sung lines keep their words
+            return line.replace(SOUND_ANNOTATION, '').replace(MUSIC_NOTES, '').trim().replace(SPEAKER_LABEL, '').trim();
+        })
+        // A dialogue dash left alone after its annotation was removed
+        .filter(line => line !== '' && !/^-\s*$/.test(line))
+        .join('\n');
+}
+
+function stripStyling(text: string): string {
+    return text
+        .replace(/<[^>]*>/g, '')
+        .replace(/\{\\[^}]*\}/g, '')
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean)
+        .join('\n');
+}
+
+/**
+ * Join cues with the same text that touch or overlap, and drop cues left empty
+ */
+function mergeCues(cues: SubtitleCue[]): { cues: SubtitleCue[]; merged: number } {
+    const result: SubtitleCue[] = [];
+    let merged = 0;
+    for (const cue of cues) {
+        if (!cue.text.trim()) continue;
+        const previous = result[result.length - 1];
+        if (previous && previous.text === cue.text && cue.start - previous.end <= MERGE_GAP_MS) {
+            previous.end = Math.max(previous.end, cue.end);
+            merged++;
+            continue;
+        }
+        result.push({ ...cue });
+    }
+    return { cues: result, merged };
+}
+
+/**
+ * Apply the enabled rules and return a new document
+ */
+export function cleanupSubtitle(doc: SubtitleDocument, config: CleanupConfig): { doc: SubtitleDocument; stats: CleanupStats } {
+    const stats: CleanupStats = { removed: 0, modified: 0, merged: 0 };
+    let cues: SubtitleCue[] = [];
+
+    for (const original of doc.cues) {
+        if (config.removeAds && config.adPattern?.test(original.text.replace(/<[^>]*>/g, ''))) {
+            stats.removed++;
+            continue;
+        }
+
+        let text = original.text;
+        if (config.stripHearingImpaired) text = stripHearingImpaired(text);
+        if (config.stripStyling) text = stripStyling(text);
+
+        if (!text.trim()) {
+            stats.removed++;
+            continue;
+        }
+
+        const cue: SubtitleCue = { ...original, text };
+        const restyled = config.stripStyling
+            && (original.rawText !== undefined || original.style !== undefined || original.position !== undefined);
+        if (text !== original.text || restyled) {
+            // rawText would bring the old text (and its ASS styling) back on ASS output
+            delete cue.rawText;
+            if (config.stripStyling) {
+                delete cue.style;
+                delete cue.position;
+            }
+            stats.modified++;
+        }
+        cues.push(cue);
+    }
+
+    if (config.mergeCues) {
+        const result = mergeCues(cues);
+        stats.removed += cues.length - result.cues.length - result.merged;
+        stats.merged = result.merged;
+        cues = result.cues;
+    }
+
+    return { doc: { ...doc, cues }, stats };
+}
+
+/**
+ * True when cleanup changed anything worth publishing separately
+ */
+export function hasChanges(stats: CleanupStats): boolean {
+    return stats.removed > 0 || stats.modified > 0 || stats.merged > 0;
+}
@@ -0,0 +1,93 @@
+/**
+ * Validation of /configure requests against the manifest's config fields
+ *
+ * Every field is checked for its type, its options and its bounds. Problems are
+ * reported per field so the UI can show them next to the right input; nothing is
+ * applied while any field is invalid.
+ */
+
+import type { ConfigField } from './types.js';
+
+export interface ConfigValidationResult {
+    // Submitted values with defaults filled in, only meaningful when there are no errors
+    config: Record<string, unknown>;
+    errors: Record<string, string>;
+}
+
+/**
+ * Extra check for a single field, returning an error message or null
+ */
+export type FieldCheck = (value: unknown) => string | null;
+
+function describeOptions(field: ConfigField): string {
+    return (field.options ?? []).map(o => o.value).join(', ');
+}
+
+function validateField(field: ConfigField, value: unknown): string | null {
+    const allowed = field.options?.map(o => o.value);
+
+    switch (field.type) {
+        case 'boolean':
+            return typeof value === 'boolean' ? null : 'Must be true or false';
+
+        case 'number': {
+            const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+            if (typeof number !== 'number' || !Number.isFinite(number)) return 'Must be a number';
+            if (field.min !== undefined && number < field.min) return `Must be at least ${field.min}`;
+            if (field.max !== undefined && number > field.max) return `Must be at most ${field.max}`;
+            return null;
+        }
+
+        case 'string':
+            return typeof value === 'string' ? null : 'Must be a string';
+
+        case 'select':
+            if (typeof value !== 'string') return 'Must be a string';
+            if (allowed && !allowed.includes(value)) return `Must be one of: ${describeOptions(field)}`;
+            return null;
+
+        case 'multiselect': {
+            // Comma-separated strings are accepted for hand-written configs
+            const values = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',').map(v => v.trim()).filter(Boolean) : null;
+            if (!values || values.some(v => typeof v !== 'string')) return 'Must be a list of strings';
+            const unknown = allowed ? values.filter(v => !allowed.includes(v)) : [];
+            if (unknown.length > 0) return `Unknown value(s) ${unknown.join(', ')}; allowed: ${describeOptions(field)}`;
+            return null;
+        }
+    }
+}
+
+/**
+ * Check a config object against the manifest fields
+ *
+ * Missing or null values fall back to the field default (an error for required
+ * fields without one). Keys the manifest does not declare are passed through
+ * untouched for backwards compatibility.
+ */
+export function validateConfig(
+    config: Record<string, unknown>,
+    fields: Record<string, ConfigField>,
+    checks: Record<string, FieldCheck> = {}
+): ConfigValidationResult {
+    const result: Record<string, unknown> = { ...config };
+    const errors: Record<string, string> = {};
+
+    for (const [name, field] of Object.entries(fields)) {
+        const value = config[name];
+        if (value === undefined || value === null) {
+            if (field.required && field.default === undefined) {
+                errors[name] = 'Required';
+            } else {
+                result[name] = field.default;
+            }
+            continue;
+        }
+
+        const error = validateField(field, value) ?? checks[name]?.(value) ?? null;
+        if (error) {
+            errors[name] = error;
+        }
+    }
+
+    return { config: result, errors };
+}
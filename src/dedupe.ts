@@ -0,0 +1,172 @@
+/**
+ * Content-level subtitle deduplication
+ *
+ * Tracks are compared by their normalized cue text and timing instead of their
+ * file CID, so the same subtitle muxed as both SRT and ASS, under another title or
+ * in another edition of the film is recognized. A signature holds an exact hash of
+ * the cues and a small bottom-k sketch for estimating how similar two tracks are.
+ *
+ * Published files are remembered in an index under /cache, one JSON file per
+ * output file, so later videos can link an existing file instead of writing a copy.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, unlinkSync } from 'fs';
+import * as path from 'path';
+import { normalizeCueText, type SubtitleCue, type SubtitleFormat } from './subtitles.js';
+import type { SubtitleVariant } from './cleanup.js';
+import { writeFileAtomic, removeTempFiles } from './atomic-write.js';
+
+export interface SubtitleSignature {
+    // Normalized text with timings rounded to TIMING_PRECISION_MS
+    hash: string;
+    // Smallest SKETCH_SIZE hashes of the cue keys, sorted
+    sketch: string[];
+    cues: number;
+}
+
+export interface IndexedSubtitle {
+    cid: string;
+    // Relative to /output
+    fileName: string;
+    format: SubtitleFormat;
+    variant?: SubtitleVariant;
+    videoCid: string;
+    signature: SubtitleSignature;
+    indexedAt: string;
+}
+
+export interface DuplicateMatch {
+    entry: IndexedSubtitle;
+    similarity: number;
+}
+
+// ASS stores centiseconds and SRT milliseconds; this absorbs rounding between them
+const TIMING_PRECISION_MS = 100;
+// Sketch keys pair the text with its start second, so retimed copies stop matching
+const SKETCH_BUCKET_MS = 1000;
+const SKETCH_SIZE = 64;
+
+function shortHash(value: string): string {
+    return createHash('sha1').update(value).digest('hex').slice(0, 16);
+}
+
+/**
+ * Signature of a track's cues
+ */
+export function subtitleSignature(cues: SubtitleCue[]): SubtitleSignature {
+    const exact = createHash('sha256');
+    const keys = new Set<string>();
+    let count = 0;
+    for (const cue of cues) {
+        const text = normalizeCueText(cue.text.replace(/\{\\[^}]*\}/g, ''));
+        if (!text) continue;
+        count++;
+        exact.update(`${Math.round(cue.start / TIMING_PRECISION_MS)}-${Math.round(cue.end / TIMING_PRECISION_MS)}:${text}\n`);
+        keys.add(shortHash(`${Math.round(cue.start / SKETCH_BUCKET_MS)}:${text}`));
+    }
+    return {
+        hash: exact.digest('hex'),
+        sketch: [...keys].sort().slice(0, SKETCH_SIZE),
+        cues: count,
+    };
+}
+
+/**
+ * Estimated share of cues two tracks have in common (0-1), 1 for identical content
+ */
+export function signatureSimilarity(a: SubtitleSignature, b: SubtitleSignature): number {
+    if (a.hash === b.hash) return 1;
+    // Bottom-k estimate of the Jaccard index: of the smallest keys of the union, how many both have
+    const inA = new Set(a.sketch);
+    const inB = new Set(b.sketch);
+    const union = [...new Set([...a.sketch, ...b.sketch])].sort().slice(0, SKETCH_SIZE);
+    if (union.length === 0) return 0;
+    const shared = union.filter(key => inA.has(key) && inB.has(key)).length;
+    return Math.round(shared / union.length * 1000) / 1000;
+}
+
+/**
+ * Published subtitle files by content, persisted under /cache
+ */
+export class SubtitleIndex {
+    private entries: Map<string, IndexedSubtitle> | null = null;
+    private persistent = true;
+
+    constructor(private dir: string) {}
+
+    /**
+     * Most similar file of the same format and variant from another video
+     */
+    find(
+        signature: SubtitleSignature,
+        options: { format: SubtitleFormat; variant?: SubtitleVariant; minSimilarity: number; excludeVideo: string }
+    ): DuplicateMatch | null {
+        let best: DuplicateMatch | null = null;
+        for (const entry of this.load().values()) {
+            if (entry.format !== options.format || entry.variant !== options.variant || entry.videoCid === options.excludeVideo) continue;
+            const similarity = signatureSimilarity(signature, entry.signature);
+            if (similarity >= options.minSimilarity && (!best || similarity > best.similarity)) {
+                best = { entry, similarity };
+                if (similarity === 1) break;
+            }
+        }
+        return best;
+    }
+
+    add(entry: IndexedSubtitle): void {
+        this.load().set(entry.fileName, entry);
+        if (!this.persistent) return;
+        try {
+            writeFileAtomic(this.entryPath(entry.fileName), JSON.stringify(entry));
+        } catch (e) {
+            console.warn(`[subtitle-extractor] Could not write ${entry.fileName} to the subtitle index: ${e}`);
+        }
+    }
+
+    remove(fileName: string): void {
+        this.load().delete(fileName);
+        if (!this.persistent) return;
+        try {
+            if (existsSync(this.entryPath(fileName))) unlinkSync(this.entryPath(fileName));
+        } catch (e) {
+            console.warn(`[subtitle-extractor] Could not remove ${fileName} from the subtitle index: ${e}`);
+        }
+    }
+
+    get size(): number {
+        return this.load().size;
+    }
+
+    private entryPath(fileName: string): string {
+        return path.join(this.dir, `${shortHash(fileName)}.json`);
+    }
+
+    /**
+     * Read the index on first use
+     */
+    private load(): Map<string, IndexedSubtitle> {
+        if (this.entries) return this.entries;
+        this.entries = new Map();
+
+        try {
+            mkdirSync(this.dir, { recursive: true });
+            removeTempFiles(this.dir);
+        } catch (e) {
+            console.warn(`[subtitle-extractor] Subtitle index ${this.dir} not writable, duplicates are only detected until restart: ${e}`);
+            this.persistent = false;
+            return this.entries;
+        }
+
+        for (const name of readdirSync(this.dir).filter(n => n.endsWith('.json'))) {
+            try {
+                const entry = JSON.parse(readFileSync(path.join(this.dir, name), 'utf-8')) as IndexedSubtitle;
+                this.entries.set(entry.fileName, entry);
+            } catch (e) {
+                console.warn(`[subtitle-extractor] Ignoring unreadable subtitle index entry ${name}: ${e}`);
+            }
+        }
+        console.log(`[subtitle-extractor] Loaded ${this.entries.size} subtitle index entries`);
+        return this.entries;
+    }
+}
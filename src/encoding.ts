@@ -0,0 +1,172 @@
+/**
+ * Character encoding detection and UTF-8 normalization
+ *
+ * Legacy subtitle payloads are often CP1252, CP1251 or Shift-JIS. The raw bytes
+ * are decoded here, so everything written to /output (and hashed into a CID)
+ * is UTF-8 with a consistent BOM and line-ending policy.
+ */
+
+import { profileSimilarity } from './language-detect.js';
+
+export interface EncodingGuess {
+    encoding: string;
+    confidence: number;
+}
+
+export type LineEnding = 'lf' | 'crlf';
+
+export interface OutputEncodingOptions {
+    bom: boolean;
+    lineEnding: LineEnding;
+}
+
+// Legacy encodings tried in order when the bytes are not valid UTF-8
+const SINGLE_BYTE_CANDIDATES = [
+    'windows-1252',
+    'windows-1250',
+    'windows-1251',
+    'windows-1253',
+    'windows-1254',
+    'windows-1255',
+    'windows-1256',
+    'koi8-r',
+];
+
+const MULTI_BYTE_CANDIDATES = ['shift_jis', 'euc-jp', 'gb18030', 'big5', 'euc-kr'];
+
+// Sample size used for detection; enough text for the language profiles
+const SAMPLE_BYTES = 64 * 1024;
+
+// Share of a correctly decoded CJK text made of these characters; wrong decodes stay near zero
+const HIRAGANA = /[\u3041-\u309f]/g;
+const HANGUL = /[\uac00-\ud7af]/g;
+const COMMON_HANZI = /[的一是不了人我在有他你们們这這个個说說来來到么麼就要会會也没沒看好吗嗎去上什那她知道想时時还還对對能把]/g;
+const MIN_CJK_SHARE = 0.15;
+
+/**
+ * Check whether TextDecoder knows an encoding label
+ */
+export function isSupportedEncoding(label: string): boolean {
+    try {
+        new TextDecoder(label);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function detectBom(buffer: Buffer): string | null {
+    if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) return 'utf-8';
+    if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) return 'utf-16le';
+    if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) return 'utf-16be';
+    return null;
+}
+
+function tryDecode(buffer: Buffer, encoding: string, fatal: boolean): string | null {
+    try {
+        return new TextDecoder(encoding, { fatal }).decode(buffer);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Share of characters that only show up in mis-decoded text:
+ * replacement characters, C1 controls and (outside Japanese) half-width katakana
+ */
+function garbageRatio(text: string): number {
+    const bad = text.match(/[\ufffd\u0080-\u009f\uff61-\uff9f]/g)?.length ?? 0;
+    return bad / Math.max(text.length, 1);
+}
+
+/**
+ * Guess the encoding of raw subtitle bytes
+ *
+ * A BOM or valid UTF-8 wins outright. Otherwise every legacy candidate is decoded
+ * and the one whose text reads most like a real language is kept.
+ */
+export function detectEncoding(buffer: Buffer): EncodingGuess {
+    const bom = detectBom(buffer);
+    if (bom) return { encoding: bom, confidence: 1 };
+
+    const sample = buffer.subarray(0, SAMPLE_BYTES);
+    // Cutting the sample may split a multi-byte character; only check whole input when small
+    const utf8 = tryDecode(buffer.length <= SAMPLE_BYTES ? buffer : trimPartial(sample), 'utf-8', true);
+    if (utf8 !== null) return { encoding: 'utf-8', confidence: 1 };
+
+    // CJK encodings must decode strictly and produce plenty of everyday characters
+    let bestCjk: EncodingGuess | null = null;
+    for (const encoding of MULTI_BYTE_CANDIDATES) {
+        const text = tryDecode(trimPartial(sample), encoding, true);
+        if (text === null || garbageRatio(text) > 0.01) continue;
+
+        const share = cjkShare(text);
+        if (share >= MIN_CJK_SHARE && (!bestCjk || share > bestCjk.confidence)) {
+            bestCjk = { encoding, confidence: share };
+        }
+    }
+    if (bestCjk) {
+        return { encoding: bestCjk.encoding, confidence: round(Math.min(1, bestCjk.confidence * 3)) };
+    }
+
+    // Single-byte encodings: keep the decode that reads most like a known language
+    let best: EncodingGuess = { encoding: 'windows-1252', confidence: 0 };
+    for (const encoding of SINGLE_BYTE_CANDIDATES) {
+        const text = tryDecode(sample, encoding, false);
+        if (text === null || garbageRatio(text) > 0.01) continue;
+
+        const similarity = profileSimilarity(text);
+        if (similarity > best.confidence) {
+            best = { encoding, confidence: similarity };
+        }
+    }
+    return { encoding: best.encoding, confidence: round(Math.min(1, best.confidence * 2)) };
+}
+
+/**
+ * Largest share of hiragana, hangul or common hanzi among the letters of a text
+ */
+function cjkShare(text: string): number {
+    const letters = text.match(/\p{L}/gu)?.length ?? 0;
+    if (letters === 0) return 0;
+    const count = (pattern: RegExp) => text.match(pattern)?.length ?? 0;
+    return Math.max(count(HIRAGANA), count(HANGUL), count(COMMON_HANZI)) / letters;
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Drop a trailing incomplete character so strict decoders do not reject a cut sample
+ */
+function trimPartial(sample: Buffer): Buffer {
+    let end = sample.length;
+    // Back off to the last ASCII byte (newline, space, ...) which always ends a character
+    while (end > 0 && sample[end - 1] >= 0x80 && sample.length - end < 4) {
+        end--;
+    }
+    return sample.subarray(0, end);
+}
+
+/**
+ * Decode raw subtitle bytes to a string
+ * A forced encoding skips detection.
+ */
+export function decodeSubtitleBuffer(buffer: Buffer, forcedEncoding?: string): { text: string; encoding: string; confidence: number } {
+    const guess = forcedEncoding ? { encoding: forcedEncoding, confidence: 1 } : detectEncoding(buffer);
+    // TextDecoder strips a matching BOM on its own
+    const text = new TextDecoder(guess.encoding).decode(buffer);
+    return { text, encoding: guess.encoding, confidence: guess.confidence };
+}
+
+/**
+ * Encode output text as UTF-8 with the configured BOM and line endings
+ */
+export function encodeSubtitleText(text: string, options: OutputEncodingOptions): Buffer {
+    let normalized = text.replace(/^\ufeff/, '').replace(/\r\n?/g, '\n');
+    if (options.lineEnding === 'crlf') {
+        normalized = normalized.replace(/\n/g, '\r\n');
+    }
+    return Buffer.from((options.bom ? '\ufeff' : '') + normalized, 'utf-8');
+}
@@ -0,0 +1,174 @@
+/**
+ * Output filename templates
+ *
+ * A template is plain text with placeholders, rendered once per output file:
+ *
+ *   {field}                 value of a track attribute or an existingMeta field
+ *   {a|b|"text"}            first non-empty alternative; quoted text is used as is
+ *   {season:2}              zero-pad numbers to at least 2 digits
+ *   <text {field} text>     optional section, dropped when any placeholder in it is empty
+ *   /                       subdirectory inside /output
+ *
+ * `<` and `>` can never appear in a filename, so they are free to mark optional sections.
+ */
+
+export const DEFAULT_FILENAME_TEMPLATE = '{originalTitle|title|fileName|"video"}< ({movieYear})>[{cid}]_subtitle.{track}.{ext}';
+
+interface Placeholder {
+    type: 'placeholder';
+    alternatives: Array<{ field: string; pad?: number } | { literal: string }>;
+}
+
+interface Literal {
+    type: 'literal';
+    text: string;
+}
+
+interface OptionalSection {
+    type: 'optional';
+    parts: Array<Placeholder | Literal>;
+}
+
+type TemplatePart = Placeholder | Literal | OptionalSection;
+
+export interface FilenameTemplate {
+    source: string;
+    parts: TemplatePart[];
+}
+
+const FIELD_NAME = /^[A-Za-z_][\w.-]*$/;
+
+/**
+ * Remove characters that are not allowed in filenames and collapse whitespace
+ */
+export function sanitizeFilename(name: string): string {
+    return name
+        .replace(/[<>:"/\\|?*\x00-\x1f]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function parsePlaceholder(body: string): Placeholder {
+    if (!body.trim()) {
+        throw new Error('Empty placeholder {}');
+    }
+    const alternatives = body.split('|').map(alt => {
+        const value = alt.trim();
+        const quoted = value.match(/^"([^"]*)"$/);
+        if (quoted) return { literal: quoted[1] };
+
+        const [field, pad, ...rest] = value.split(':');
+        if (!FIELD_NAME.test(field) || rest.length > 0) {
+            throw new Error(`Invalid placeholder {${body}}`);
+        }
+        if (pad !== undefined && !/^\d{1,2}$/.test(pad)) {
+            throw new Error(`Invalid padding in {${body}}, expected a number like {${field}:2}`);
+        }
+        return { field, pad: pad !== undefined ? parseInt(pad, 10) : undefined };
+    });
+    return { type: 'placeholder', alternatives };
+}
+
+/**
+ * Parse and validate a template
+ * Throws with a message naming the problem, so /configure can reject bad templates.
+ */
+export function parseFilenameTemplate(source: string): FilenameTemplate {
+    const parts: TemplatePart[] = [];
+    let optional: OptionalSection | null = null;
+    let i = 0;
+
+    const push = (part: Placeholder | Literal) => (optional ? optional.parts : parts).push(part);
+
+    while (i < source.length) {
+        const char = source[i];
+        if (char === '{') {
+            const end = source.indexOf('}', i);
+            if (end === -1) throw new Error(`Unclosed "{" at position ${i}`);
+            push(parsePlaceholder(source.slice(i + 1, end)));
+            i = end + 1;
+        } else if (char === '}') {
+            throw new Error(`Unexpected "}" at position ${i}`);
+        } else if (char === '<') {
+            if (optional) throw new Error(`Optional sections cannot be nested (position ${i})`);
+            optional = { type: 'optional', parts: [] };
+            i++;
+        } else if (char === '>') {
+            if (!optional) throw new Error(`Unexpected ">" at position ${i}`);
+            parts.push(optional);
+            optional = null;
+            i++;
+        } else {
+            let end = i;
+            while (end < source.length && !'{}<>'.includes(source[end])) end++;
+            push({ type: 'literal', text: source.slice(i, end) });
+            i = end;
+        }
+    }
+    if (optional) throw new Error('Unclosed "<" optional section');
+
+    const fields = new Set(
+        parts.flatMap(part => part.type === 'optional' ? part.parts : [part])
+            .flatMap(part => part.type === 'placeholder' ? part.alternatives : [])
+            .flatMap(alt => 'field' in alt ? [alt.field] : [])
+    );
+    if (!fields.has('ext')) {
+        throw new Error('Template must contain {ext}');
+    }
+    if (!fields.has('track') && !(fields.has('index') && fields.has('variant'))) {
+        throw new Error('Template must contain {track}, or {index} and {variant}, so every subtitle track and variant gets its own file');
+    }
+    if (source.startsWith('/') || source.split('/').some(segment => segment === '..' || segment === '.')) {
+        throw new Error('Template must stay inside /output (no leading "/", "." or ".." segments)');
+    }
+
+    return { source, parts };
+}
+
+function resolve(placeholder: Placeholder, values: Record<string, string | undefined>): string {
+    for (const alt of placeholder.alternatives) {
+        if ('literal' in alt) {
+            if (alt.literal) return alt.literal;
+            continue;
+        }
+        const value = sanitizeFilename(values[alt.field] ?? '');
+        if (!value) continue;
+        return alt.pad && /^\d+$/.test(value) ? value.padStart(alt.pad, '0') : value;
+    }
+    return '';
+}
+
+/**
+ * Render a template to a path relative to /output
+ * Values are sanitized, so they can never add directories or leave /output.
+ */
+export function renderFilename(template: FilenameTemplate, values: Record<string, string | undefined>): string {
+    let rendered = '';
+    for (const part of template.parts) {
+        if (part.type === 'literal') {
+            rendered += part.text;
+        } else if (part.type === 'placeholder') {
+            rendered += resolve(part, values);
+        } else {
+            let section = '';
+            let complete = true;
+            for (const inner of part.parts) {
+                if (inner.type === 'literal') {
+                    section += inner.text;
+                } else {
+                    const value = resolve(inner, values);
+                    if (!value) complete = false;
+                    section += value;
+                }
+            }
+            if (complete) rendered += section;
+        }
+    }
+
+    return rendered
+        .split('/')
+        .map(segment => segment.replace(/\s+/g, ' ').trim())
+        .map(segment => segment === '.' || segment === '..' ? '_' : segment)
+        .filter(Boolean)
+        .join('/');
+}
@@ -18,15 +18,32 @@
  */
 
 import Fastify from 'fastify';
+import * as path from 'path';
 import type { HealthResponse, ProcessRequest, ProcessResponse, CallbackPayload, ConfigureRequest, ConfigureResponse } from './types.js';
-import { manifest, process as processFile, configure } from './plugin.js';
+import { manifest, process as processFile, configure, validateConfiguration, getEffectiveConfig, cleanupLeftovers } from './plugin.js';
+import { JobRegistry, type Job } from './jobs.js';
+import { WorkerPool, readPoolSize } from './worker-pool.js';
+import { CallbackOutbox } from './callback-outbox.js';
 
 const app = Fastify({ logger: true });
+const jobs = new JobRegistry();
+// ffmpeg is the bottleneck; defaults suit a single instance with half a CPU
+const pool = new WorkerPool(readPoolSize('MAX_CONCURRENT_JOBS', 1), readPoolSize('MAX_QUEUED_JOBS', 10, 0));
+// Undelivered callbacks survive restarts here
+const outbox = new CallbackOutbox(path.join(process.env.CACHE_PATH || '/cache', 'outbox'));
 let ready = false;
+let shuttingDown = false;
 
+// How long running jobs may keep going after SIGTERM before they are killed
+const shutdownGracePeriod = parseInt(process.env.SHUTDOWN_GRACE_PERIOD_MS || '30000', 10);
+// Time given to killed jobs to remove their partial files
+const SHUTDOWN_CLEANUP_MS = 5000;
+const SHUTDOWN_REASON = 'Plugin shutting down';
+
+// Not ready while the queue is full, so the orchestrator routes work elsewhere
 app.get('/health', async (): Promise<HealthResponse> => ({
     status: 'healthy',
-    ready,
+    ready: ready && !pool.saturated,
     version: manifest.version
 }));
 
@@ -34,7 +51,12 @@ app.get('/manifest', async () => manifest);
 
 app.post<{ Body: ConfigureRequest }>('/configure', async (request): Promise<ConfigureResponse> => {
     try {
-        configure(request.body.config || {});
+        const { config, errors } = validateConfiguration(request.body?.config || {});
+        if (Object.keys(errors).length > 0) {
+            console.warn(`[${manifest.id}] Configuration rejected:`, errors);
+            return { status: 'error', error: `Invalid configuration: ${Object.keys(errors).join(', ')}`, errors };
+        }
+        configure(config);
         console.log(`[${manifest.id}] Configuration updated`);
         return { status: 'ok' };
     } catch (error) {
@@ -43,6 +65,8 @@ app.post<{ Body: ConfigureRequest }>('/configure', async (request): Promise<Conf
     }
 });
 
+app.get('/config', async () => getEffectiveConfig());
+
 app.post<{ Body: ProcessRequest }>('/process', async (request, reply) => {
     const { taskId, cid, filePath, callbackUrl, metaCoreUrl } = request.body;
 
@@ -50,33 +74,129 @@ app.post<{ Body: ProcessRequest }>('/process', async (request, reply) => {
         return reply.send({ status: 'rejected', error: 'Missing required fields' } as ProcessResponse);
     }
 
-    // Process asynchronously and send callback when done
-    processFile(request.body, async (payload: CallbackPayload) => {
-        try {
-            await fetch(callbackUrl, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(payload)
-            });
-        } catch (error) {
-            console.error(`[${manifest.id}] Callback error:`, error);
-        }
-    }).catch((error) => {
-        console.error(`[${manifest.id}] Process error:`, error);
+    if (shuttingDown) {
+        return reply.send({ status: 'rejected', error: SHUTDOWN_REASON, retryable: true } as ProcessResponse);
+    }
+    if (jobs.get(taskId)?.active) {
+        return reply.send({ status: 'rejected', error: `Task ${taskId} is already ${jobs.get(taskId)!.state}` } as ProcessResponse);
+    }
+    if (pool.saturated) {
+        return reply.send({
+            status: 'rejected',
+            error: `Busy: ${pool.running} job(s) running and ${pool.queued} queued, retry later`,
+            retryable: true,
+        } as ProcessResponse);
+    }
+
+    const job = jobs.create(request.body)!;
+
+    // Process asynchronously and send callback when done (unless the job was cancelled meanwhile)
+    pool.submit(taskId, async () => {
+        if (!job.active) return;
+        job.start();
+        await processFile(request.body, async (payload: CallbackPayload) => {
+            if (!job.finish(payload)) return;
+            await outbox.send(callbackUrl, payload);
+        }, job).catch((error) => {
+            console.error(`[${manifest.id}] Process error:`, error);
+        });
     });
 
     return reply.send({ status: 'accepted' } as ProcessResponse);
 });
 
+app.get('/jobs', async () => ({ jobs: jobs.list() }));
+
+app.get<{ Params: { taskId: string } }>('/jobs/:taskId', async (request, reply) => {
+    const job = jobs.get(request.params.taskId);
+    if (!job) {
+        return reply.code(404).send({ error: 'Job not found' });
+    }
+    return job;
+});
+
+app.delete<{ Params: { taskId: string } }>('/jobs/:taskId', async (request, reply) => {
+    const job = jobs.get(request.params.taskId);
+    if (!job) {
+        return reply.code(404).send({ error: 'Job not found' });
+    }
+    if (!job.active) {
+        return reply.code(409).send({ error: `Job already ${job.state}` });
+    }
+
+    console.log(`[${manifest.id}] Cancelling task ${job.taskId}`);
+    pool.remove(job.taskId);
+    await outbox.send(job.callbackUrl, job.cancel());
+    return job;
+});
+
+app.get('/diagnostics', async () => ({
+    callbacks: outbox.stats(),
+    pool: {
+        running: pool.running,
+        queued: pool.queued,
+        concurrency: pool.concurrency,
+        queueSize: pool.queueSize,
+    },
+}));
+
 const port = parseInt(process.env.PORT || '8080', 10);
 
+cleanupLeftovers();
+
 app.listen({ port, host: '0.0.0.0' }).then(() => {
     ready = true;
     console.log(`[${manifest.id}] Listening on port ${port}`);
+    outbox.resume();
 });
 
-process.on('SIGTERM', async () => {
+/**
+ * Resolve true if the promise settles within the timeout, false otherwise
+ */
+function settlesWithin(promise: Promise<void>, timeoutMs: number): Promise<boolean> {
+    return new Promise(resolve => {
+        const timer = setTimeout(() => resolve(false), Math.max(timeoutMs, 0));
+        promise.then(() => {
+            clearTimeout(timer);
+            resolve(true);
+        });
+    });
+}
+
+/**
+ * Stop taking work, let running jobs finish within the grace period, then kill the rest
+ * Every job that did not finish gets a failed callback.
+ */
+async function shutdown(signal: string): Promise<void> {
+    if (shuttingDown) return;
+    shuttingDown = true;
     ready = false;
+    console.log(`[${manifest.id}] ${signal} received, draining ${pool.running} running and ${pool.queued} queued job(s)`);
+
+    // Callbacks are persisted in the outbox before the first attempt, so they are all sent at once
+    // and the ones not delivered before exit go out on the next start
+    const deliveries: Array<Promise<void>> = [];
+    const cancel = (job: Job) => {
+        deliveries.push(outbox.send(job.callbackUrl, job.cancel(SHUTDOWN_REASON)));
+    };
+
+    // Queued jobs never started, there is nothing to wait for
+    for (const taskId of pool.clear()) {
+        const job = jobs.get(taskId);
+        if (job?.active) cancel(job);
+    }
+
+    if (!await settlesWithin(pool.whenIdle(), shutdownGracePeriod)) {
+        const remaining = jobs.active();
+        console.log(`[${manifest.id}] Grace period of ${shutdownGracePeriod}ms over, killing ${remaining.length} job(s)`);
+        remaining.forEach(cancel);
+    }
+    // Killed jobs remove their partial outputs while unwinding; they record nothing once cancelled
+    await settlesWithin(Promise.all([pool.whenIdle(), ...deliveries]).then(() => undefined), SHUTDOWN_CLEANUP_MS);
+
     await app.close();
     process.exit(0);
-});
+}
+
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+process.on('SIGINT', () => void shutdown('SIGINT'));
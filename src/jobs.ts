@@ -0,0 +1,190 @@
+/**
+ * In-memory registry of /process jobs
+ *
+ * Tracks every accepted task by `taskId` so running extractions can be listed,
+ * inspected and cancelled. Nothing is persisted; a restart forgets all jobs.
+ */
+
+import type { ProcessRequest, CallbackPayload } from './types.js';
+
+export type JobState = 'queued' | 'running' | 'completed' | 'failed' | 'skipped' | 'cancelled';
+
+/**
+ * Outcome of one output file (or of a whole track when it failed before any file was written)
+ */
+export interface TrackResult {
+    track: string;
+    status: 'written' | 'reused' | 'linked' | 'failed' | 'duplicate' | 'dropped' | 'removed';
+    format?: string;
+    fileName?: string;
+    error?: string;
+    // Quality score (0-100) of written, linked and dropped tracks
+    quality?: number;
+}
+
+/**
+ * JSON view of a job, as returned by the /jobs endpoints
+ */
+export interface JobSnapshot {
+    taskId: string;
+    cid: string;
+    filePath: string;
+    state: JobState;
+    currentStep?: string;
+    queuedAt: string;
+    startedAt?: string;
+    finishedAt?: string;
+    elapsedMs: number;
+    tracks: TrackResult[];
+    error?: string;
+    reason?: string;
+}
+
+// Finished jobs kept for inspection; older ones are dropped first
+const FINISHED_JOB_LIMIT = 100;
+
+export class Job {
+    readonly taskId: string;
+    readonly cid: string;
+    readonly filePath: string;
+    readonly callbackUrl: string;
+    readonly queuedAt = Date.now();
+    startedAt?: number;
+    state: JobState = 'queued';
+    currentStep?: string;
+    finishedAt?: number;
+    error?: string;
+    reason?: string;
+    readonly tracks: TrackResult[] = [];
+
+    private readonly controller = new AbortController();
+
+    constructor(request: ProcessRequest) {
+        this.taskId = request.taskId;
+        this.cid = request.cid;
+        this.filePath = request.filePath;
+        this.callbackUrl = request.callbackUrl;
+    }
+
+    /**
+     * Aborted when the job is cancelled; ffmpeg children listen to it
+     */
+    get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    /**
+     * Queued or running, i.e. not finished yet
+     */
+    get active(): boolean {
+        return this.state === 'queued' || this.state === 'running';
+    }
+
+    /**
+     * Called when a worker picks the job up
+     */
+    start(): void {
+        this.state = 'running';
+        this.startedAt = Date.now();
+    }
+
+    setStep(step: string): void {
+        this.currentStep = step;
+    }
+
+    recordTrack(result: TrackResult): void {
+        this.tracks.push(result);
+    }
+
+    /**
+     * Throw if the job was cancelled, so processing stops at the next checkpoint
+     */
+    throwIfCancelled(): void {
+        this.controller.signal.throwIfAborted();
+    }
+
+    /**
+     * Mark the job finished with the callback it produced
+     * Returns false when it already finished (e.g. cancelled), in which case the callback must not be sent.
+     */
+    finish(payload: CallbackPayload): boolean {
+        if (!this.active) return false;
+        this.state = payload.status;
+        this.error = payload.error;
+        this.reason = payload.reason;
+        this.finishedAt = Date.now();
+        this.currentStep = undefined;
+        return true;
+    }
+
+    /**
+     * Cancel a queued or running job: abort its ffmpeg children and return the callback to send
+     */
+    cancel(reason = 'Cancelled'): CallbackPayload {
+        const payload: CallbackPayload = {
+            taskId: this.taskId,
+            status: 'failed',
+            duration: Date.now() - (this.startedAt ?? this.queuedAt),
+            error: reason,
+        };
+        this.finish(payload);
+        this.state = 'cancelled';
+        this.controller.abort(new Error(reason));
+        return payload;
+    }
+
+    toJSON(): JobSnapshot {
+        return {
+            taskId: this.taskId,
+            cid: this.cid,
+            filePath: this.filePath,
+            state: this.state,
+            currentStep: this.currentStep,
+            queuedAt: new Date(this.queuedAt).toISOString(),
+            startedAt: this.startedAt ? new Date(this.startedAt).toISOString() : undefined,
+            finishedAt: this.finishedAt ? new Date(this.finishedAt).toISOString() : undefined,
+            // Time spent running, not waiting in the queue
+            elapsedMs: this.startedAt ? (this.finishedAt ?? Date.now()) - this.startedAt : 0,
+            tracks: this.tracks,
+            error: this.error,
+            reason: this.reason,
+        };
+    }
+}
+
+export class JobRegistry {
+    private jobs = new Map<string, Job>();
+
+    /**
+     * Register a new job, or return null when a job with the same taskId is still queued or running
+     * A finished job with the same taskId is replaced.
+     */
+    create(request: ProcessRequest): Job | null {
+        if (this.jobs.get(request.taskId)?.active) return null;
+
+        const job = new Job(request);
+        this.jobs.delete(request.taskId);
+        this.jobs.set(request.taskId, job);
+        this.prune();
+        return job;
+    }
+
+    get(taskId: string): Job | undefined {
+        return this.jobs.get(taskId);
+    }
+
+    list(): Job[] {
+        return [...this.jobs.values()];
+    }
+
+    active(): Job[] {
+        return this.list().filter(job => job.active);
+    }
+
+    private prune(): void {
+        const finished = this.list().filter(job => !job.active);
+        for (const job of finished.slice(0, Math.max(finished.length - FINISHED_JOB_LIMIT, 0))) {
+            this.jobs.delete(job.taskId);
+        }
+    }
+}
@@ -0,0 +1,150 @@
+/**
+ * Offline language detection for subtitle text
+ *
+ * Two stages, no external data:
+ *   1. Script detection settles languages with their own writing system
+ *      (Japanese, Korean, Chinese, Arabic, Hebrew, Greek, Thai, Hindi).
+ *   2. Latin and Cyrillic text is compared against character trigram profiles
+ *      built at load time from the short dialogue samples bundled below.
+ *      Greek, Hebrew and Arabic have profiles too, for profileSimilarity().
+ *
+ * Results are ISO 639-2/B codes with a confidence between 0 and 1.
+ */
+
+export interface LanguageGuess {
+    language: string;
+    confidence: number;
+}
+
+// Subtitle-like dialogue per language; profiles are built from these at load time
+const SAMPLES: Record<string, string> = {
+    eng: `what are you doing here i told you not to come back. i know but i had to see you. we need to talk about what happened last night. there is nothing to talk about. you should go home now. please just listen to me for one minute. where were you when they came for him? i was at the station with the others. come on we have to get out of here before they find us. it is not safe anymore. did you hear that? something is wrong. i think they are coming this way. thank you for everything you have done for me. i will never forget it. we should have left when we had the chance. what do you want from me? i want the truth.`,
+    fre: `qu'est-ce que tu fais ici je t'ai dit de ne pas revenir. je sais mais il fallait que je te voie. nous devons parler de ce qui s'est passé hier soir. il n'y a rien à dire. tu devrais rentrer chez toi maintenant. s'il te plaît écoute-moi une minute. où étais-tu quand ils sont venus le chercher? j'étais à la gare avec les autres. allez il faut partir d'ici avant qu'ils nous trouvent. ce n'est plus sûr. tu as entendu ça? quelque chose ne va pas. je crois qu'ils viennent par ici. merci pour tout ce que tu as fait pour moi. je ne l'oublierai jamais. qu'est-ce que vous voulez de moi? je veux la vérité.`,
+    ger: `was machst du hier ich habe dir gesagt dass du nicht zurückkommen sollst. ich weiß aber ich musste dich sehen. wir müssen darüber reden was gestern abend passiert ist. es gibt nichts zu reden. du solltest jetzt nach hause gehen. bitte hör mir nur eine minute zu. wo warst du als sie ihn geholt haben? ich war mit den anderen am bahnhof. komm schon wir müssen hier raus bevor sie uns finden. es ist nicht mehr sicher. hast du das gehört? irgendetwas stimmt nicht. ich glaube sie kommen hierher. danke für alles was du für mich getan hast. das werde ich nie vergessen. was willst du von mir? ich will die wahrheit.`,
+    spa: `qué estás haciendo aquí te dije que no volvieras. lo sé pero tenía que verte. tenemos que hablar de lo que pasó anoche. no hay nada de qué hablar. deberías irte a casa ahora. por favor escúchame solo un minuto. dónde estabas cuando vinieron por él? estaba en la estación con los demás. vamos tenemos que salir de aquí antes de que nos encuentren. ya no es seguro. oíste eso? algo anda mal. creo que vienen hacia aquí. gracias por todo lo que has hecho por mí. nunca lo olvidaré. qué quieres de mí? quiero la verdad.`,
+    ita: `cosa ci fai qui ti avevo detto di non tornare. lo so ma dovevo vederti. dobbiamo parlare di quello che è successo ieri sera. non c'è niente di cui parlare. dovresti andare a casa adesso. per favore ascoltami solo un minuto. dov'eri quando sono venuti a prenderlo? ero alla stazione con gli altri. andiamo dobbiamo andarcene da qui prima che ci trovino. non è più sicuro. hai sentito? qualcosa non va. credo che stiano venendo da questa parte. grazie per tutto quello che hai fatto per me. non lo dimenticherò mai. cosa vuoi da me? voglio la verità.`,
+    por: `o que você está fazendo aqui eu disse para não voltar. eu sei mas eu precisava te ver. nós precisamos falar sobre o que aconteceu ontem à noite. não há nada para falar. você deveria ir para casa agora. por favor me escute só um minuto. onde você estava quando eles vieram buscá-lo? eu estava na estação com os outros. vamos temos que sair daqui antes que eles nos encontrem. não é mais seguro. você ouviu isso? tem alguma coisa errada. acho que eles estão vindo para cá. obrigado por tudo que você fez por mim. nunca vou esquecer. o que você quer de mim? eu quero a verdade.`,
+    dut: `wat doe jij hier ik zei toch dat je niet terug moest komen. ik weet het maar ik moest je zien. we moeten praten over wat er gisteravond is gebeurd. er valt niets te praten. je moet nu naar huis gaan. luister alsjeblieft even een minuutje naar me. waar was je toen ze hem kwamen halen? ik was op het station met de anderen. kom op we moeten hier weg voordat ze ons vinden. het is niet meer veilig. hoorde je dat? er is iets mis. ik denk dat ze deze kant op komen. bedankt voor alles wat je voor me hebt gedaan. dat zal ik nooit vergeten. wat wil je van me? ik wil de waarheid.`,
+    swe: `vad gör du här jag sa ju att du inte skulle komma tillbaka. jag vet men jag var tvungen att träffa dig. vi måste prata om det som hände i går kväll. det finns inget att prata om. du borde gå hem nu. snälla lyssna på mig bara en minut. var var du när de kom för att hämta honom? jag var på stationen med de andra. kom igen vi måste härifrån innan de hittar oss. det är inte säkert längre. hörde du det? något är fel. jag tror att de kommer hitåt. tack för allt du har gjort för mig. jag kommer aldrig att glömma det. vad vill du ha av mig? jag vill ha sanningen.`,
+    dan: `hvad laver du her jeg sagde jo at du ikke skulle komme tilbage. jeg ved det men jeg blev nødt til at se dig. vi er nødt til at tale om det der skete i aftes. der er ikke noget at tale om. du burde tage hjem nu. vær sød at lytte til mig bare et øjeblik. hvor var du da de kom efter ham? jeg var på stationen sammen med de andre. kom nu vi må væk herfra før de finder os. det er ikke sikkert længere. hørte du det? der er noget galt. jeg tror de kommer denne vej. tak for alt hvad du har gjort for mig. det glemmer jeg aldrig. hvad vil du have af mig? jeg vil have sandheden.`,
+    nor: `hva gjør du her jeg sa jo at du ikke skulle komme tilbake. jeg vet det men jeg måtte se deg. vi må snakke om det som skjedde i går kveld. det er ingenting å snakke om. du burde dra hjem nå. vær så snill og hør på meg bare ett minutt. hvor var du da de kom for å hente ham? jeg var på stasjonen sammen med de andre. kom igjen vi må komme oss vekk herfra før de finner oss. det er ikke trygt lenger. hørte du det? noe er galt. jeg tror de kommer denne veien. takk for alt du har gjort for meg. det skal jeg aldri glemme. hva vil du ha av meg? jeg vil ha sannheten.`,
+    fin: `mitä sinä täällä teet minähän sanoin ettet saa tulla takaisin. tiedän mutta minun oli pakko nähdä sinut. meidän täytyy puhua siitä mitä eilen illalla tapahtui. ei ole mitään puhuttavaa. sinun pitäisi mennä nyt kotiin. kuuntele minua edes hetki. missä sinä olit kun he tulivat hakemaan hänet? olin asemalla muiden kanssa. tule meidän täytyy päästä pois täältä ennen kuin he löytävät meidät. täällä ei ole enää turvallista. kuulitko tuon? jokin on vialla. luulen että he tulevat tännepäin. kiitos kaikesta mitä olet tehnyt minun hyväkseni. en koskaan unohda sitä. mitä sinä minusta haluat? haluan totuuden.`,
+    pol: `co ty tutaj robisz mówiłem ci żebyś nie wracała. wiem ale musiałam cię zobaczyć. musimy porozmawiać o tym co się stało wczoraj wieczorem. nie ma o czym rozmawiać. powinnaś teraz iść do domu. proszę posłuchaj mnie tylko przez minutę. gdzie byłeś kiedy po niego przyszli? byłem na stacji z innymi. chodź musimy się stąd wydostać zanim nas znajdą. tu już nie jest bezpiecznie. słyszałeś to? coś jest nie tak. myślę że idą w tę stronę. dziękuję za wszystko co dla mnie zrobiłeś. nigdy tego nie zapomnę. czego ode mnie chcesz? chcę prawdy.`,
+    cze: `co tady děláš říkal jsem ti ať se nevracíš. já vím ale musela jsem tě vidět. musíme si promluvit o tom co se stalo včera večer. není o čem mluvit. měla bys jít hned domů. prosím poslouchej mě aspoň minutu. kde jsi byl když si pro něj přišli? byl jsem na nádraží s ostatními. pojď musíme odsud zmizet než nás najdou. už tu není bezpečno. slyšels to? něco není v pořádku. myslím že jdou sem. děkuju za všechno co jsi pro mě udělal. nikdy na to nezapomenu. co ode mě chceš? chci pravdu.`,
+    hun: `mit csinálsz itt megmondtam hogy ne gyere vissza. tudom de látnom kellett téged. beszélnünk kell arról ami tegnap este történt. nincs miről beszélni. most haza kellene menned. kérlek hallgass meg csak egy percre. hol voltál amikor érte jöttek? az állomáson voltam a többiekkel. gyerünk el kell tűnnünk innen mielőtt megtalálnak. itt már nem biztonságos. hallottad ezt? valami nincs rendben. azt hiszem erre jönnek. köszönök mindent amit értem tettél. soha nem felejtem el. mit akarsz tőlem? az igazságot akarom.`,
+    rum: `ce faci aici ți-am spus să nu te mai întorci. știu dar trebuia să te văd. trebuie să vorbim despre ce s-a întâmplat aseară. nu avem despre ce să vorbim. ar trebui să pleci acasă acum. te rog ascultă-mă doar un minut. unde erai când au venit după el? eram la gară cu ceilalți. haide trebuie să plecăm de aici înainte să ne găsească. nu mai e sigur. ai auzit asta? ceva nu e în regulă. cred că vin încoace. mulțumesc pentru tot ce ai făcut pentru mine. nu voi uita niciodată. ce vrei de la mine? vreau adevărul.`,
+    tur: `burada ne yapıyorsun sana geri gelme demiştim. biliyorum ama seni görmem gerekiyordu. dün gece olanlar hakkında konuşmamız lazım. konuşacak bir şey yok. şimdi eve gitmelisin. lütfen beni sadece bir dakika dinle. onu almaya geldiklerinde neredeydin? diğerleriyle birlikte istasyondaydım. hadi bizi bulmadan buradan çıkmamız lazım. artık güvenli değil. bunu duydun mu? bir şeyler yanlış. sanırım bu tarafa geliyorlar. benim için yaptığın her şey için teşekkür ederim. bunu asla unutmayacağım. benden ne istiyorsun? gerçeği istiyorum.`,
+    ind: `apa yang kamu lakukan di sini aku sudah bilang jangan kembali. aku tahu tapi aku harus bertemu denganmu. kita harus bicara tentang apa yang terjadi tadi malam. tidak ada yang perlu dibicarakan. kamu sebaiknya pulang sekarang. tolong dengarkan aku sebentar saja. di mana kamu waktu mereka datang menjemputnya? aku di stasiun bersama yang lain. ayo kita harus pergi dari sini sebelum mereka menemukan kita. di sini sudah tidak aman lagi. kamu dengar itu? ada yang tidak beres. aku rasa mereka datang ke arah sini. terima kasih untuk semua yang telah kamu lakukan untukku. aku tidak akan pernah melupakannya. apa yang kamu inginkan dariku? aku ingin kebenaran.`,
+    rus: `что ты здесь делаешь я же сказал тебе не возвращаться. я знаю но мне нужно было тебя увидеть. нам нужно поговорить о том что случилось вчера вечером. не о чем говорить. тебе лучше сейчас пойти домой. пожалуйста послушай меня всего одну минуту. где ты был когда они пришли за ним? я был на вокзале с остальными. давай нам нужно уходить отсюда пока они нас не нашли. здесь больше не безопасно. ты это слышал? что-то не так. кажется они идут сюда. спасибо за всё что ты для меня сделал. я никогда этого не забуду. чего ты от меня хочешь? я хочу правды.`,
+    ukr: `що ти тут робиш я ж казав тобі не повертатися. я знаю але мені треба було тебе побачити. нам треба поговорити про те що сталося вчора ввечері. немає про що говорити. тобі краще зараз піти додому. будь ласка вислухай мене лише одну хвилину. де ти був коли вони прийшли по нього? я був на вокзалі з іншими. ходімо нам треба йти звідси поки вони нас не знайшли. тут більше не безпечно. ти це чув? щось не так. здається вони йдуть сюди. дякую за все що ти для мене зробив. я ніколи цього не забуду. чого ти від мене хочеш? я хочу правди.`,
+    gre: `τι κάνεις εδώ σου είπα να μην γυρίσεις πίσω. το ξέρω αλλά έπρεπε να σε δω. πρέπει να μιλήσουμε για αυτό που έγινε χθες το βράδυ. δεν υπάρχει τίποτα να πούμε. πρέπει να πας σπίτι τώρα. σε παρακαλώ άκουσέ με μόνο για ένα λεπτό. πού ήσουν όταν ήρθαν να τον πάρουν; ήμουν στο σταθμό με τους άλλους. έλα πρέπει να φύγουμε από εδώ πριν μας βρουν. δεν είναι πια ασφαλές. το άκουσες αυτό; κάτι δεν πάει καλά. νομίζω ότι έρχονται προς τα εδώ. ευχαριστώ για όλα όσα έκανες για μένα. δεν θα το ξεχάσω ποτέ. τι θέλεις από μένα; θέλω την αλήθεια.`,
+    heb: `מה אתה עושה כאן אמרתי לך לא לחזור. אני יודעת אבל הייתי חייבת לראות אותך. אנחנו צריכים לדבר על מה שקרה אתמול בלילה. אין על מה לדבר. אתה צריך ללכת הביתה עכשיו. בבקשה תקשיב לי רק דקה אחת. איפה היית כשהם באו לקחת אותו? הייתי בתחנה עם האחרים. בוא אנחנו חייבים לצאת מכאן לפני שהם ימצאו אותנו. זה כבר לא בטוח. שמעת את זה? משהו לא בסדר. אני חושב שהם באים לכאן. תודה על כל מה שעשית בשבילי. לעולם לא אשכח את זה. מה אתה רוצה ממני? אני רוצה את האמת.`,
+    ara: `ماذا تفعل هنا قلت لك ألا تعود. أعرف لكن كان علي أن أراك. يجب أن نتحدث عما حدث الليلة الماضية. لا يوجد ما نتحدث عنه. يجب أن تذهب إلى المنزل الآن. أرجوك استمع إلي لدقيقة واحدة فقط. أين كنت عندما جاؤوا لأخذه؟ كنت في المحطة مع الآخرين. هيا يجب أن نخرج من هنا قبل أن يجدونا. لم يعد المكان آمنا. هل سمعت ذلك؟ هناك شيء خاطئ. أعتقد أنهم قادمون إلى هنا. شكرا على كل ما فعلته من أجلي. لن أنسى ذلك أبدا. ماذا تريد مني؟ أريد الحقيقة.`,
+    bul: `какво правиш тук казах ти да не се връщаш. знам но трябваше да те видя. трябва да поговорим за това което се случи снощи. няма за какво да говорим. трябва да се прибереш вкъщи веднага. моля те изслушай ме само за минута. къде беше когато дойдоха за него? бях на гарата с другите. хайде трябва да се махаме оттук преди да ни намерят. вече не е безопасно. чу ли това? нещо не е наред. мисля че идват насам. благодаря за всичко което направи за мен. никога няма да го забравя. какво искаш от мен? искам истината.`,
+};
+
+// Writing systems that identify a language on their own
+const SCRIPT_LANGUAGES: Array<{ pattern: RegExp; language: string }> = [
+    { pattern: /[\u3040-\u30ff]/g, language: 'jpn' },
+    { pattern: /[\uac00-\ud7af\u1100-\u11ff]/g, language: 'kor' },
+    { pattern: /[\u4e00-\u9fff]/g, language: 'chi' },
+    { pattern: /[\u0600-\u06ff]/g, language: 'ara' },
+    { pattern: /[\u0590-\u05ff]/g, language: 'heb' },
+    { pattern: /[\u0370-\u03ff]/g, language: 'gre' },
+    { pattern: /[\u0e00-\u0e7f]/g, language: 'tha' },
+    { pattern: /[\u0900-\u097f]/g, language: 'hin' },
+];
+
+const PROFILE_SIZE = 300;
+// Below this many letters a guess is not worth making
+const MIN_LETTERS = 20;
+
+type Profile = Map<string, number>;
+
+/**
+ * Relative trigram frequencies of a text, words padded with spaces
+ */
+function buildProfile(text: string, limit?: number): Profile {
+    const counts = new Map<string, number>();
+    const words = text.toLowerCase().split(/[^\p{L}']+/u).filter(Boolean);
+    let total = 0;
+
+    for (const word of words) {
+        const padded = ` ${word} `;
+        for (let i = 0; i < padded.length - 2; i++) {
+            const gram = padded.slice(i, i + 3);
+            counts.set(gram, (counts.get(gram) ?? 0) + 1);
+            total++;
+        }
+    }
+
+    let entries = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+    if (limit) entries = entries.slice(0, limit);
+    return new Map(entries.map(([gram, count]) => [gram, count / Math.max(total, 1)]));
+}
+
+function cosine(a: Profile, b: Profile): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (const [gram, value] of a) {
+        normA += value * value;
+        const other = b.get(gram);
+        if (other) dot += value * other;
+    }
+    for (const value of b.values()) normB += value * value;
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+const PROFILES = new Map<string, Profile>(
+    Object.entries(SAMPLES).map(([language, sample]) => [language, buildProfile(sample, PROFILE_SIZE)])
+);
+
+/**
+ * Guess the language of a block of subtitle text
+ * Returns null when there is too little text to say anything.
+ */
+export function detectLanguage(text: string): LanguageGuess | null {
+    const letters = text.match(/\p{L}/gu);
+    if (!letters || letters.length < MIN_LETTERS) return null;
+
+    // Stage 1: distinctive scripts. Kana wins over Han so Japanese is not read as Chinese.
+    for (const { pattern, language } of SCRIPT_LANGUAGES) {
+        const count = text.match(pattern)?.length ?? 0;
+        const share = count / letters.length;
+        if (share >= 0.3 || (language === 'jpn' && share >= 0.05)) {
+            return { language, confidence: Math.min(1, round(share + 0.3)) };
+        }
+    }
+
+    // Stage 2: trigram similarity against the bundled profiles
+    const profile = buildProfile(text);
+    const scores = [...PROFILES.entries()]
+        .map(([language, reference]) => ({ language, score: cosine(profile, reference) }))
+        .sort((a, b) => b.score - a.score);
+
+    const [best, second] = scores;
+    if (!best || best.score === 0) return null;
+
+    // Confidence grows with the gap to the runner-up and with the amount of text
+    const margin = second ? (best.score - second.score) / best.score : 1;
+    const volume = Math.min(1, letters.length / 500);
+    return { language: best.language, confidence: round(Math.min(1, margin * 2.5) * (0.5 + 0.5 * volume)) };
+}
+
+/**
+ * Best trigram similarity of a text to any bundled profile (0-1)
+ * Mis-decoded text matches no profile, which is what encoding detection relies on.
+ */
+export function profileSimilarity(text: string): number {
+    const profile = buildProfile(text);
+    let best = 0;
+    for (const reference of PROFILES.values()) {
+        best = Math.max(best, cosine(profile, reference));
+    }
+    return best;
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,246 @@
+/**
+ * Language code normalization
+ *
+ * Stream tags come as ISO 639-2/B (`fre`), ISO 639-2/T (`fra`), ISO 639-1 (`fr`),
+ * BCP 47 tags (`zh-Hans`, `pt-BR`) or even plain names (`French`). Everything is
+ * mapped through one table so metadata and filenames use a single style.
+ */
+
+export type LanguageStyle = 'iso639-1' | 'iso639-2' | 'bcp47';
+
+export const LANGUAGE_STYLES: LanguageStyle[] = ['iso639-1', 'iso639-2', 'bcp47'];
+
+interface LanguageEntry {
+    alpha2?: string;
+    alpha3b: string;
+    alpha3t: string;
+    name: string;
+}
+
+// alpha2 | 639-2/B | 639-2/T (when different) | English name
+const LANGUAGE_TABLE = `
+aa|aar||Afar
+ab|abk||Abkhazian
+af|afr||Afrikaans
+ak|aka||Akan
+am|amh||Amharic
+ar|ara||Arabic
+as|asm||Assamese
+az|aze||Azerbaijani
+ba|bak||Bashkir
+be|bel||Belarusian
+bg|bul||Bulgarian
+bn|ben||Bengali
+bo|tib|bod|Tibetan
+br|bre||Breton
+bs|bos||Bosnian
+ca|cat||Catalan
+ce|che||Chechen
+co|cos||Corsican
+cs|cze|ces|Czech
+cy|wel|cym|Welsh
+da|dan||Danish
+de|ger|deu|German
+dv|div||Divehi
+dz|dzo||Dzongkha
+el|gre|ell|Greek
+en|eng||English
+eo|epo||Esperanto
+es|spa||Spanish
+et|est||Estonian
+eu|baq|eus|Basque
+fa|per|fas|Persian
+fi|fin||Finnish
+fo|fao||Faroese
+fr|fre|fra|French
+fy|fry||Western Frisian
+ga|gle||Irish
+gd|gla||Gaelic
+gl|glg||Galician
+gn|grn||Guarani
+gu|guj||Gujarati
+ha|hau||Hausa
+he|heb||Hebrew
+hi|hin||Hindi
+hr|hrv||Croatian
+ht|hat||Haitian
+hu|hun||Hungarian
+hy|arm|hye|Armenian
+id|ind||Indonesian
+ig|ibo||Igbo
+is|ice|isl|Icelandic
+it|ita||Italian
+iu|iku||Inuktitut
+ja|jpn||Japanese
+jv|jav||Javanese
+ka|geo|kat|Georgian
+kk|kaz||Kazakh
+kl|kal||Kalaallisut
+km|khm||Khmer
+kn|kan||Kannada
+ko|kor||Korean
+ku|kur||Kurdish
+ky|kir||Kirghiz
+la|lat||Latin
+lb|ltz||Luxembourgish
+lo|lao||Lao
+lt|lit||Lithuanian
+lv|lav||Latvian
+mg|mlg||Malagasy
+mi|mao|mri|Maori
+mk|mac|mkd|Macedonian
+ml|mal||Malayalam
+mn|mon||Mongolian
+mr|mar||Marathi
+ms|may|msa|Malay
+mt|mlt||Maltese
+my|bur|mya|Burmese
+nb|nob||Norwegian Bokmal
+ne|nep||Nepali
+nl|dut|nld|Dutch
+nn|nno||Norwegian Nynorsk
+no|nor||Norwegian
+oc|oci||Occitan
+or|ori||Oriya
+pa|pan||Punjabi
+pl|pol||Polish
+ps|pus||Pashto
+pt|por||Portuguese
+qu|que||Quechua
+rm|roh||Romansh
+ro|rum|ron|Romanian
+ru|rus||Russian
+rw|kin||Kinyarwanda
+sa|san||Sanskrit
+sc|srd||Sardinian
+sd|snd||Sindhi
+se|sme||Northern Sami
+si|sin||Sinhala
+sk|slo|slk|Slovak
+sl|slv||Slovenian
+sm|smo||Samoan
+sn|sna||Shona
+so|som||Somali
+sq|alb|sqi|Albanian
+sr|srp||Serbian
+st|sot||Southern Sotho
+su|sun||Sundanese
+sv|swe||Swedish
+sw|swa||Swahili
+ta|tam||Tamil
+te|tel||Telugu
+tg|tgk||Tajik
+th|tha||Thai
+ti|tir||Tigrinya
+tk|tuk||Turkmen
+tl|tgl||Tagalog
+tn|tsn||Tswana
+to|ton||Tonga
+tr|tur||Turkish
+tt|tat||Tatar
+ug|uig||Uighur
+uk|ukr||Ukrainian
+ur|urd||Urdu
+uz|uzb||Uzbek
+vi|vie||Vietnamese
+wo|wol||Wolof
+xh|xho||Xhosa
+yi|yid||Yiddish
+yo|yor||Yoruba
+za|zha||Zhuang
+zh|chi|zho|Chinese
+zu|zul||Zulu
+|fil||Filipino
+|yue||Cantonese
+|haw||Hawaiian
+`;
+
+// Codes that say "no particular language"
+const NO_LANGUAGE_CODES = new Set(['und', 'mul', 'zxx', 'mis', 'unk', 'unknown', 'none']);
+
+const entries: LanguageEntry[] = LANGUAGE_TABLE.trim().split('\n').map(line => {
+    const [alpha2, alpha3b, alpha3t, name] = line.split('|');
+    return { alpha2: alpha2 || undefined, alpha3b, alpha3t: alpha3t || alpha3b, name };
+});
+
+const byCode = new Map<string, LanguageEntry>();
+for (const entry of entries) {
+    if (entry.alpha2) byCode.set(entry.alpha2, entry);
+    byCode.set(entry.alpha3b, entry);
+    byCode.set(entry.alpha3t, entry);
+    byCode.set(entry.name.toLowerCase(), entry);
+}
+// Deprecated ISO 639-1 codes still seen in the wild
+byCode.set('iw', byCode.get('he')!);
+byCode.set('in', byCode.get('id')!);
+byCode.set('ji', byCode.get('yi')!);
+
+/**
+ * Split a tag into its primary language and the remaining subtags, normalizing subtag case
+ * (`zh_hans_cn` -> `zh` + `Hans`, `CN`)
+ */
+function splitTag(tag: string): { primary: string; subtags: string[] } {
+    const [primary, ...rest] = tag.trim().split(/[-_]/);
+    const subtags = rest.filter(Boolean).map(subtag => {
+        if (/^[a-z]{4}$/i.test(subtag)) return subtag[0].toUpperCase() + subtag.slice(1).toLowerCase();
+        if (/^[a-z]{2}$/i.test(subtag)) return subtag.toUpperCase();
+        return subtag.toLowerCase();
+    });
+    return { primary: primary.toLowerCase(), subtags };
+}
+
+function lookup(primary: string): LanguageEntry | undefined {
+    return byCode.get(primary);
+}
+
+/**
+ * Normalize a language tag to the requested style
+ *
+ * - `iso639-1`: `en` (three letters when the language has no two-letter code)
+ * - `iso639-2`: `eng`, using the bibliographic variant (`fre`, `ger`) as Matroska does
+ * - `bcp47`:    `en`, `en-US`, `zh-Hans` (script and region subtags kept)
+ *
+ * Returns undefined for empty tags and for `und`/`mul`/`zxx`. Unknown but well-formed
+ * codes (two or three letters) are kept lowercased; anything else is dropped.
+ */
+export function normalizeLanguage(tag: string | undefined, style: LanguageStyle): string | undefined {
+    if (!tag || !tag.trim()) return undefined;
+
+    const { primary, subtags } = splitTag(tag);
+    if (NO_LANGUAGE_CODES.has(primary)) return undefined;
+
+    const entry = lookup(primary) ?? lookup(tag.trim().toLowerCase());
+    if (!entry) {
+        if (!/^[a-z]{2,3}$/.test(primary)) return undefined;
+        return style === 'bcp47' && subtags.length > 0 ? [primary, ...subtags].join('-') : primary;
+    }
+
+    switch (style) {
+        case 'iso639-1':
+            return entry.alpha2 ?? entry.alpha3t;
+        case 'iso639-2':
+            return entry.alpha3b;
+        case 'bcp47':
+            return [entry.alpha2 ?? entry.alpha3t, ...subtags].join('-');
+    }
+}
+
+/**
+ * Canonical primary language used to compare tags: `en`, `eng`, `en-US` and `English` all give `eng`
+ */
+export function primaryLanguage(tag: string | undefined): string | undefined {
+    return normalizeLanguage(tag, 'iso639-2');
+}
+
+/**
+ * True only for codes and names in the built-in table (not merely well-formed ones)
+ */
+export function isKnownLanguage(tag: string | undefined): boolean {
+    if (!tag) return false;
+    const { primary } = splitTag(tag);
+    return lookup(primary) !== undefined || lookup(tag.trim().toLowerCase()) !== undefined;
+}
+
+export function isLanguageStyle(value: unknown): value is LanguageStyle {
+    return typeof value === 'string' && (LANGUAGE_STYLES as string[]).includes(value);
+}
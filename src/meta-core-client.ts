@@ -63,6 +63,17 @@ export class MetaCoreClient {
         }
     }
 
+    /**
+     * Replace the members of a set
+     * There is no call to remove a single member, so the set is deleted and filled again.
+     */
+    async replaceSet(hashId: string, key: string, values: string[]): Promise<void> {
+        await this.deleteProperty(hashId, key);
+        for (const value of values) {
+            await this.addToSet(hashId, key, value);
+        }
+    }
+
     async getMetadata(hashId: string): Promise<Record<string, string>> {
         const response = await this.safeFetch(`${this.baseUrl}/meta/${hashId}`, { method: 'GET' });
         if (!response || response.status === 404) return {};
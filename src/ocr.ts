@@ -0,0 +1,250 @@
+/**
+ * OCR of image-based subtitles
+ *
+ * A provider turns decoded subtitle bitmaps (see bitmap-subtitles.ts) into text
+ * cues, each with a confidence between 0 and 1. The tesseract provider runs a
+ * locally installed `tesseract` once per track over all of its images; the static
+ * provider returns fixed text and lets tests run without an OCR engine.
+ */
+
+import { spawn } from 'child_process';
+import { randomBytes } from 'crypto';
+import { unlinkSync, writeFileSync } from 'fs';
+import * as path from 'path';
+import type { SubtitleBitmap } from './bitmap-subtitles.js';
+
+export interface OcrCue {
+    start: number; // milliseconds
+    end: number; // milliseconds
+    text: string;
+    confidence: number;
+}
+
+export interface OcrOptions {
+    // ISO 639-2/B code of the track, when it is tagged
+    language?: string;
+    timeoutMs: number;
+    signal?: AbortSignal;
+}
+
+export interface OcrProvider {
+    readonly name: string;
+    // False when the engine cannot run here; the result may be cached
+    isAvailable(): Promise<boolean>;
+    // One cue per bitmap, in the same order; text is empty when nothing was recognized
+    recognize(bitmaps: SubtitleBitmap[], options: OcrOptions): Promise<OcrCue[]>;
+}
+
+// Recorded on OCR'd tracks
+export interface OcrSummary {
+    engine: string;
+    confidence: number;
+}
+
+// Tesseract names its models by ISO 639-2/T code; these are the ones that differ from 639-2/B
+const TESSERACT_LANGUAGES: Record<string, string> = {
+    'alb': 'sqi',
+    'arm': 'hye',
+    'baq': 'eus',
+    'bur': 'mya',
+    'chi': 'chi_sim',
+    'cze': 'ces',
+    'dut': 'nld',
+    'fre': 'fra',
+    'geo': 'kat',
+    'ger': 'deu',
+    'gre': 'ell',
+    'ice': 'isl',
+    'mac': 'mkd',
+    'may': 'msa',
+    'per': 'fas',
+    'rum': 'ron',
+    'slo': 'slk',
+    'tib': 'bod',
+    'wel': 'cym',
+};
+
+const DEFAULT_TESSERACT_LANGUAGE = 'eng';
+const LIST_LANGUAGES_TIMEOUT_MS = 10000;
+// White border around each image; tesseract misses text touching the edge
+const IMAGE_MARGIN = 10;
+
+/**
+ * Confidence of a whole track: the cue confidences weighted by text length
+ */
+export function summarizeOcr(engine: string, cues: OcrCue[]): OcrSummary {
+    const weight = cues.reduce((sum, cue) => sum + cue.text.length, 0);
+    const confidence = weight > 0 ? cues.reduce((sum, cue) => sum + cue.confidence * cue.text.length, 0) / weight : 0;
+    return { engine, confidence: Math.round(confidence * 100) / 100 };
+}
+
+/**
+ * Run a command and resolve with its stdout, rejecting on a non-zero exit
+ */
+function run(command: string, args: string[], timeoutMs: number, signal?: AbortSignal): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+
+        let stdout = '';
+        let stderr = '';
+        child.stdout?.on('data', (data) => {
+            stdout += data.toString();
+        });
+        child.stderr?.on('data', (data) => {
+            stderr += data.toString();
+        });
+
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            child.kill('SIGKILL');
+        }, Math.max(timeoutMs, 0));
+        const cancel = () => child.kill('SIGKILL');
+        signal?.addEventListener('abort', cancel, { once: true });
+
+        const done = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', cancel);
+        };
+        child.on('close', (code) => {
+            done();
+            if (signal?.aborted) {
+                reject(new Error('Cancelled'));
+            } else if (timedOut) {
+                reject(new Error(`${command} timed out after ${Math.round(timeoutMs / 1000)}s`));
+            } else if (code !== 0) {
+                reject(new Error(stderr.trim().slice(0, 200) || `${command} exited with code ${code}`));
+            } else {
+                // Older tesseract versions print some listings to stderr
+                resolve(stdout || stderr);
+            }
+        });
+        child.on('error', (err) => {
+            done();
+            reject(err);
+        });
+    });
+}
+
+/**
+ * Binary PGM image of a bitmap, with a white margin
+ */
+function toPgm(bitmap: SubtitleBitmap): Buffer {
+    const width = bitmap.width + 2 * IMAGE_MARGIN;
+    const height = bitmap.height + 2 * IMAGE_MARGIN;
+    const header = Buffer.from(`P5\n${width} ${height}\n255\n`, 'latin1');
+    const pixels = Buffer.alloc(width * height, 255);
+    for (let row = 0; row < bitmap.height; row++) {
+        pixels.set(bitmap.pixels.subarray(row * bitmap.width, (row + 1) * bitmap.width), (row + IMAGE_MARGIN) * width + IMAGE_MARGIN);
+    }
+    return Buffer.concat([header, pixels]);
+}
+
+/**
+ * Turn tesseract TSV output into one cue per page (image)
+ */
+function parseTesseractTsv(tsv: string, bitmaps: SubtitleBitmap[]): OcrCue[] {
+    const pages = bitmaps.map(() => ({ lines: new Map<string, string[]>(), confidence: 0, characters: 0 }));
+    for (const row of tsv.split('\n').slice(1)) {
+        const columns = row.split('\t');
+        // Level 5 rows are words: level, page, block, paragraph, line, word, left, top, width, height, conf, text
+        if (columns.length < 12 || columns[0] !== '5') continue;
+        const page = pages[parseInt(columns[1], 10) - 1];
+        const text = columns.slice(11).join('\t').trim();
+        const confidence = parseFloat(columns[10]);
+        if (!page || !text || !(confidence >= 0)) continue;
+
+        const key = columns.slice(2, 5).join('.');
+        page.lines.set(key, [...(page.lines.get(key) ?? []), text]);
+        page.confidence += (confidence / 100) * text.length;
+        page.characters += text.length;
+    }
+
+    return bitmaps.map((bitmap, i) => ({
+        start: bitmap.start,
+        end: bitmap.end,
+        text: [...pages[i].lines.values()].map(words => words.join(' ')).join('\n'),
+        confidence: pages[i].characters > 0 ? pages[i].confidence / pages[i].characters : 0,
+    }));
+}
+
+/**
+ * OCR with a locally installed tesseract command
+ *
+ * All images of a track are written to `workDir` and passed to one tesseract run
+ * as a list file, so the models are only loaded once.
+ */
+export class TesseractOcrProvider implements OcrProvider {
+    readonly name = 'tesseract';
+    private languages: Promise<Set<string> | null> | null = null;
+
+    constructor(private command: string, private workDir: string) {}
+
+    async isAvailable(): Promise<boolean> {
+        return (await this.listLanguages()) !== null;
+    }
+
+    async recognize(bitmaps: SubtitleBitmap[], options: OcrOptions): Promise<OcrCue[]> {
+        const installed = (await this.listLanguages()) ?? new Set<string>();
+        const wanted = options.language ? TESSERACT_LANGUAGES[options.language] ?? options.language : DEFAULT_TESSERACT_LANGUAGE;
+        const language = installed.has(wanted) ? wanted : DEFAULT_TESSERACT_LANGUAGE;
+        if (language !== wanted) {
+            console.log(`[subtitle-extractor] No tesseract model for ${wanted}, using ${language}`);
+        }
+
+        const prefix = path.join(this.workDir, `ocr-${randomBytes(6).toString('hex')}`);
+        const files: string[] = [];
+        try {
+            const images = bitmaps.map((bitmap, i) => {
+                const file = `${prefix}.${i}.pgm`;
+                files.push(file);
+                writeFileSync(file, toPgm(bitmap));
+                return file;
+            });
+            const list = `${prefix}.txt`;
+            files.push(list);
+            writeFileSync(list, images.join('\n') + '\n');
+
+            // --psm 6: a single uniform block of text, which is what a subtitle image is
+            const tsv = await run(this.command, [list, 'stdout', '-l', language, '--psm', '6', 'tsv'], options.timeoutMs, options.signal);
+            return parseTesseractTsv(tsv, bitmaps);
+        } finally {
+            for (const file of files) {
+                try { unlinkSync(file); } catch {}
+            }
+        }
+    }
+
+    /**
+     * Installed models, or null when tesseract cannot be run
+     */
+    private listLanguages(): Promise<Set<string> | null> {
+        this.languages ??= run(this.command, ['--list-langs'], LIST_LANGUAGES_TIMEOUT_MS)
+            .then(output => new Set(output.split('\n').map(line => line.trim()).filter(line => /^[\w-]+$/.test(line))))
+            .catch((err) => {
+                console.log(`[subtitle-extractor] OCR command ${this.command} is not usable: ${err instanceof Error ? err.message : err}`);
+                return null;
+            });
+        return this.languages;
+    }
+}
+
+/**
+ * Deterministic provider for tests: every bitmap becomes the same kind of cue
+ */
+export class StaticOcrProvider implements OcrProvider {
+    readonly name = 'static';
+
+    constructor(
+        private text: (bitmap: SubtitleBitmap, index: number) => string = (_, index) => `Subtitle line ${index + 1}`,
+        private confidence = 1
+    ) {}
+
+    async isAvailable(): Promise<boolean> {
+        return true;
+    }
+
+    async recognize(bitmaps: SubtitleBitmap[]): Promise<OcrCue[]> {
+        return bitmaps.map((bitmap, index) => ({ start: bitmap.start, end: bitmap.end, text: this.text(bitmap, index), confidence: this.confidence }));
+    }
+}
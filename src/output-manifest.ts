@@ -0,0 +1,98 @@
+/**
+ * Per-video manifest of the files in /output
+ *
+ * Records which files the last completed run of a video produced and the settings
+ * it ran with. The next run uses it to skip the video, to add only the files that
+ * are missing, or to remove files that are no longer produced. Stored under /cache,
+ * one JSON file per video.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync } from 'fs';
+import * as path from 'path';
+import { writeFileAtomic } from './atomic-write.js';
+
+export interface ManifestFile {
+    // Relative to /output
+    fileName: string;
+    cid: string;
+    language?: string;
+    // Published for another video and only linked to this one; never removed from /output here
+    linked?: boolean;
+    // The `.idx` of a VobSub track, which is not listed in `extractedSubtitles`
+    index?: boolean;
+}
+
+/**
+ * Settings that shape the outputs, grouped by what a change means for earlier files
+ */
+export interface OutputSettings {
+    // Change the content of files that keep their name: every file is written again
+    content: Record<string, unknown>;
+    // Change which files are produced: missing files are added, the others kept or removed
+    outputs: Record<string, unknown>;
+}
+
+export interface OutputManifest {
+    videoCid: string;
+    settings: OutputSettings;
+    files: ManifestFile[];
+    // False when tracks failed or could not be converted; the next run tries them again
+    complete: boolean;
+    updatedAt: string;
+}
+
+/**
+ * Names of the settings that differ, per group
+ */
+export function changedSettings(previous: OutputSettings, current: OutputSettings): { content: string[]; outputs: string[] } {
+    const differing = (a: Record<string, unknown> = {}, b: Record<string, unknown>) =>
+        [...new Set([...Object.keys(a), ...Object.keys(b)])].filter(key => JSON.stringify(a[key]) !== JSON.stringify(b[key]));
+    return { content: differing(previous.content, current.content), outputs: differing(previous.outputs, current.outputs) };
+}
+
+export class OutputManifestStore {
+    constructor(private dir: string) {}
+
+    load(videoCid: string): OutputManifest | null {
+        const file = this.manifestPath(videoCid);
+        if (!existsSync(file)) return null;
+        try {
+            return JSON.parse(readFileSync(file, 'utf-8')) as OutputManifest;
+        } catch (e) {
+            console.warn(`[subtitle-extractor] Ignoring unreadable output manifest of ${videoCid}: ${e}`);
+            return null;
+        }
+    }
+
+    save(manifest: OutputManifest): void {
+        try {
+            mkdirSync(this.dir, { recursive: true });
+            writeFileAtomic(this.manifestPath(manifest.videoCid), JSON.stringify(manifest));
+        } catch (e) {
+            console.warn(`[subtitle-extractor] Could not write the output manifest of ${manifest.videoCid}: ${e}`);
+        }
+    }
+
+    /**
+     * Whether another video's manifest links this file
+     * Reads every manifest, so it is only asked before removing a file.
+     */
+    isLinkedElsewhere(fileName: string, videoCid: string): boolean {
+        if (!existsSync(this.dir)) return false;
+        for (const name of readdirSync(this.dir).filter(n => n.endsWith('.json'))) {
+            try {
+                const manifest = JSON.parse(readFileSync(path.join(this.dir, name), 'utf-8')) as OutputManifest;
+                if (manifest.videoCid !== videoCid && manifest.files.some(f => f.linked && f.fileName === fileName)) {
+                    return true;
+                }
+            } catch {
+                // Unreadable manifests are ignored here as in load()
+            }
+        }
+        return false;
+    }
+
+    private manifestPath(videoCid: string): string {
+        return path.join(this.dir, `${videoCid}.json`);
+    }
+}
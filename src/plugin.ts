@@ -21,13 +21,31 @@
  * ============================================================================
  */
 
-import { spawn } from 'child_process';
-import { existsSync, mkdirSync, statSync, openSync, readSync, closeSync, unlinkSync } from 'fs';
+import { spawn, type ChildProcess } from 'child_process';
+import { existsSync, mkdirSync, statSync, openSync, readSync, closeSync, unlinkSync, readFileSync, readdirSync, rmdirSync } from 'fs';
 import { createHash } from 'crypto';
 import * as path from 'path';
+import { env } from 'process';
 import type { PluginManifest, ProcessRequest, CallbackPayload } from './types.js';
+import type { Job } from './jobs.js';
+import { writeFileAtomic, removeTempFiles } from './atomic-write.js';
+import { BITMAP_FORMAT, buildVobSub, decodePgs, decodeVobSub, parseHexDump, type BitmapFormat, type SpuPacket, type SubtitleBitmap } from './bitmap-subtitles.js';
+import { cleanupSubtitle, compileAdPattern, hasChanges, isCleanupEnabled, type CleanupConfig, type CleanupStats, type SubtitleVariant } from './cleanup.js';
+import { validateConfig, type ConfigValidationResult } from './config-validator.js';
+import { DEFAULT_FILENAME_TEMPLATE, parseFilenameTemplate, renderFilename, type FilenameTemplate } from './filename-template.js';
 import { MetaCoreClient } from './meta-core-client.js';
+import { OutputManifestStore, changedSettings, type ManifestFile, type OutputManifest, type OutputSettings } from './output-manifest.js';
 import { createWebDAVClient, WebDAVClient } from './webdav-client.js';
+import { parseSubtitle, serializeSubtitle, cueFingerprint, type SubtitleDocument, type SubtitleFormat } from './subtitles.js';
+import { TesseractOcrProvider, summarizeOcr, type OcrProvider, type OcrSummary } from './ocr.js';
+import { SubtitleIndex, subtitleSignature, signatureSimilarity, type SubtitleSignature } from './dedupe.js';
+import { describeIssues, parseVideoDuration, validateSubtitle, type QualityReport, type QualityThresholds } from './quality.js';
+import { parseSubtitleStreams, buildTrackSuffixes, claimTrackSuffix, hasClosedCaptions, closedCaptionStream, trackId, streamMetadataStatus, compareSubtitleStreams, type ProbedStream, type SubtitleStream } from './streams.js';
+import { parseList, parseTrackFilterConfig, filterTracks, describeExcluded, type TrackFilterConfig } from './track-filter.js';
+import { listSidecarSubtitles, describeSidecar, readSidecar } from './sidecar.js';
+import { normalizeLanguage, isLanguageStyle, type LanguageStyle } from './language.js';
+import { detectLanguage } from './language-detect.js';
+import { decodeSubtitleBuffer, detectEncoding, encodeSubtitleText, isSupportedEncoding, type EncodingGuess, type OutputEncodingOptions } from './encoding.js';
 
 // Initialize WebDAV client if WEBDAV_URL is set
 const webdavClient = createWebDAVClient();
@@ -37,10 +55,24 @@ if (webdavClient) {
     console.log('[subtitle-extractor] Using direct filesystem access');
 }
 
-// Output path for extracted subtitles
-const PLUGIN_OUTPUT_PATH = '/output';
+// Output path for extracted subtitles; OUTPUT_PATH and CACHE_PATH move the mounts, e.g. for tests
+const PLUGIN_OUTPUT_PATH = env.OUTPUT_PATH || '/output';
+const PLUGIN_CACHE_PATH = env.CACHE_PATH || '/cache';
 
-// Image-based subtitle codecs that cannot be converted to text
+// Raw ffmpeg output is written here before conversion
+const RAW_SUBTITLE_PATH = path.join(PLUGIN_CACHE_PATH, 'raw');
+
+// Content signatures of published files, for linking duplicates across videos
+const subtitleIndex = new SubtitleIndex(path.join(PLUGIN_CACHE_PATH, 'subtitle-index'));
+
+// What each video's last run put in /output, for incremental runs and orphan cleanup
+const outputManifests = new OutputManifestStore(path.join(PLUGIN_CACHE_PATH, 'output-manifests'));
+
+// Options that change the content of a file without changing its name; every other option
+// (except forceRecompute) only changes which files are produced
+const CONTENT_SETTINGS = new Set(['sourceEncoding', 'outputBom', 'lineEnding', 'cleanupHearingImpaired', 'cleanupStyling', 'cleanupAds', 'adPattern', 'cleanupMergeCues']);
+
+// Image-based subtitle codecs that cannot be converted to text (PGS and VobSub can be kept as bitmaps)
 const UNSUPPORTED_SUBTITLE_CODECS = new Set([
     'hdmv_pgs_subtitle',
     'pgssub',
@@ -51,15 +83,27 @@ const UNSUPPORTED_SUBTITLE_CODECS = new Set([
     'xsub',
 ]);
 
-// Supported text-based subtitle codecs
-const CODEC_EXTENSION_MAP: Record<string, string> = {
+// Supported text-based subtitle codecs and the format ffmpeg extracts them to
+const CODEC_NATIVE_FORMAT: Record<string, SubtitleFormat> = {
     'subrip': 'srt',
     'srt': 'srt',
     'ass': 'ass',
-    'ssa': 'ssa',
+    'ssa': 'ass',
     'webvtt': 'vtt',
     'mov_text': 'srt',
     'text': 'srt',
+    // Closed captions, decoded by ffmpeg and written as SubRip
+    'eia_608': 'srt',
+};
+
+// Codecs whose packets are copied byte for byte, so their original encoding can be detected afterwards
+const STREAM_COPY_CODECS = new Set(['subrip', 'srt', 'ass', 'ssa', 'webvtt']);
+
+// ffmpeg encoder writing each format
+const FORMAT_ENCODER: Record<SubtitleFormat, string> = {
+    'srt': 'srt',
+    'vtt': 'webvtt',
+    'ass': 'ass',
 };
 
 export const manifest: PluginManifest = {
@@ -76,29 +120,469 @@ export const manifest: PluginManifest = {
     schema: {
         extractedSubtitles: { label: 'Extracted Subtitles', type: 'array', readonly: true },
         subtitleLanguages: { label: 'Subtitle Languages', type: 'array', readonly: true },
+        subtitleTracks: { label: 'Subtitle Tracks', type: 'json', readonly: true, hint: 'One entry per extracted file: CID, language, format, codec, stream index and flags' },
+        subtitleDuplicates: { label: 'Duplicate Subtitle Tracks', type: 'json', readonly: true, hint: 'Tracks skipped because another track of the video has the same content' },
+        // Written on each extracted subtitle file
+        subtitleOf: { label: 'Subtitle Of', type: 'cid', readonly: true },
+        subtitleLanguage: { label: 'Subtitle Language', type: 'string', readonly: true },
+        subtitleFormat: { label: 'Subtitle Format', type: 'string', readonly: true },
+        subtitleVariant: { label: 'Subtitle Variant', type: 'string', readonly: true, hint: 'raw or cleaned, only set when text cleanup changed the track' },
+        subtitleAlsoOf: { label: 'Also Subtitle Of', type: 'array', readonly: true, hint: 'Other videos whose near-identical track was linked to this file' },
+        subtitleOcrConfidence: { label: 'Subtitle OCR Confidence', type: 'string', readonly: true, hint: 'Confidence (0-1) of the text recognized by OCR, only set on files made from image-based tracks' },
     },
     config: {
         forceRecompute: {
             type: 'boolean',
             label: 'Force Recompute',
+            description: 'Re-extract subtitles even if the video was already processed',
+            default: false,
+        },
+        outputFormats: {
+            type: 'multiselect',
+            label: 'Output Formats',
+            description: 'Each track is written once per format; ASS only for ASS/SSA sources',
+            options: [
+                { value: 'srt', label: 'SubRip (.srt)' },
+                { value: 'vtt', label: 'WebVTT (.vtt)' },
+                { value: 'ass', label: 'Advanced SubStation Alpha (.ass)' },
+            ],
+            default: ['srt'],
+        },
+        languageStyle: {
+            type: 'select',
+            label: 'Language Code Style',
+            description: 'Language code style used in metadata and filenames',
+            options: [
+                { value: 'iso639-1', label: 'ISO 639-1 (en)' },
+                { value: 'iso639-2', label: 'ISO 639-2/B (eng)' },
+                { value: 'bcp47', label: 'BCP 47 (en-US)' },
+            ],
+            default: 'iso639-2',
+        },
+        languageAllowList: {
+            type: 'string',
+            label: 'Only These Languages (comma-separated)',
+            description: 'Empty extracts every language; untagged tracks count as und',
+            default: '',
+        },
+        languageDenyList: {
+            type: 'string',
+            label: 'Never These Languages (comma-separated)',
+            default: '',
+        },
+        maxTracksPerLanguage: {
+            type: 'number',
+            label: 'Max Tracks Per Language (0 = unlimited)',
+            min: 0,
+            default: 0,
+        },
+        skipForced: {
+            type: 'boolean',
+            label: 'Skip Forced Tracks',
+            default: false,
+        },
+        skipSdh: {
+            type: 'boolean',
+            label: 'Skip SDH Tracks',
+            default: false,
+        },
+        skipCommentary: {
+            type: 'boolean',
+            label: 'Skip Commentary Tracks',
+            default: false,
+        },
+        detectLanguage: {
+            type: 'boolean',
+            label: 'Detect Language Of Untagged Tracks',
+            description: 'Guess the language of und tracks from their text, offline',
+            default: true,
+        },
+        languageDetectionThreshold: {
+            type: 'number',
+            label: 'Language Detection Confidence Threshold (0-1)',
+            description: 'Minimum confidence before a detected language is used for naming and tagging',
+            min: 0,
+            max: 1,
+            default: 0.6,
+        },
+        sourceEncoding: {
+            type: 'string',
+            label: 'Source Encoding (empty = auto-detect)',
+            description: 'Force a character encoding such as windows-1251 or shift_jis',
+            default: '',
+        },
+        outputBom: {
+            type: 'boolean',
+            label: 'Write UTF-8 BOM',
             default: false,
         },
-        outputFormat: {
+        lineEnding: {
             type: 'select',
-            label: 'Output Format',
-            default: 'srt',
+            label: 'Line Endings',
+            options: [
+                { value: 'lf', label: 'LF (Unix)' },
+                { value: 'crlf', label: 'CRLF (Windows)' },
+            ],
+            default: 'lf',
+        },
+        streamProbe: {
+            type: 'select',
+            label: 'Own Stream Probe',
+            description: 'Run ffprobe when the ffmpeg plugin stream list is missing or unreadable, or on every video to verify it',
+            options: [
+                { value: 'off', label: 'Off (ffmpeg plugin metadata only)' },
+                { value: 'fallback', label: 'When metadata is missing' },
+                { value: 'verify', label: 'Always, and log disagreements' },
+            ],
+            default: 'fallback',
+        },
+        onlyIfNoExternalSubtitle: {
+            type: 'boolean',
+            label: 'Only If No External Subtitle Exists',
+            default: false,
+        },
+        ingestSidecars: {
+            type: 'boolean',
+            label: 'Publish External Subtitle Files Next To The Video',
+            description: 'Text subtitle files beside the video or in its Subs folder; duplicates of embedded tracks are skipped',
+            default: false,
+        },
+        preserveBitmapSubtitles: {
+            type: 'boolean',
+            label: 'Keep Image-Based Subtitles',
+            description: 'Remux PGS tracks to .sup and VobSub tracks to .idx/.sub instead of skipping them',
+            default: false,
+        },
+        ocrBitmapSubtitles: {
+            type: 'boolean',
+            label: 'OCR Image-Based Subtitles',
+            description: 'Convert PGS and VobSub tracks to text with OCR; needs the OCR command in the image',
+            default: false,
+        },
+        ocrCommand: {
+            type: 'string',
+            label: 'OCR Command',
+            description: 'tesseract executable used for OCR',
+            default: 'tesseract',
+        },
+        extractClosedCaptions: {
+            type: 'boolean',
+            label: 'Extract Closed Captions',
+            description: 'Publish CEA-608/708 captions embedded in the video stream as an extra track flagged cc; decodes the whole video',
+            default: false,
+        },
+        closedCaptionTimeout: {
+            type: 'number',
+            label: 'Closed Caption Timeout (seconds)',
+            description: 'Time allowed for decoding captions; captions that run out are skipped without failing the video',
+            min: 10,
+            default: 120,
+        },
+        probeClosedCaptions: {
+            type: 'boolean',
+            label: 'Probe For Closed Captions',
+            description: 'Run ffprobe when the ffmpeg metadata does not say whether the video carries captions',
+            default: false,
+        },
+        cleanupHearingImpaired: {
+            type: 'boolean',
+            label: 'Remove Hearing-Impaired Annotations',
+            description: 'Drop [DOOR CLOSES], (SIGHS), speaker labels and music notes; sung lines keep their words',
+            default: false,
+        },
+        cleanupStyling: {
+            type: 'boolean',
+            label: 'Remove Styling',
+            description: 'Drop italic/bold tags, leftover ASS override blocks and positioning',
+            default: false,
+        },
+        cleanupAds: {
+            type: 'boolean',
+            label: 'Remove Advert Cues',
+            description: 'Drop cues matching the advert pattern ("Subtitles by ...", site names, URLs)',
+            default: false,
+        },
+        adPattern: {
+            type: 'string',
+            label: 'Advert Pattern (regular expression, empty = built-in)',
+            default: '',
+        },
+        cleanupMergeCues: {
+            type: 'boolean',
+            label: 'Merge Duplicate Cues',
+            description: 'Join consecutive cues with the same text and drop empty ones',
+            default: false,
+        },
+        qualityWarnThreshold: {
+            type: 'number',
+            label: 'Quality Warning Threshold (0-100)',
+            description: 'Tracks scoring below this are published with a warning in their metadata',
+            min: 0,
+            max: 100,
+            default: 70,
+        },
+        qualityDropThreshold: {
+            type: 'number',
+            label: 'Quality Drop Threshold (0-100, 0 = never drop)',
+            description: 'Tracks scoring below this are not published',
+            min: 0,
+            max: 100,
+            default: 30,
+        },
+        linkDuplicates: {
+            type: 'boolean',
+            label: 'Link Duplicates Across Videos',
+            description: 'Link a track matching a file already published for another video instead of writing a copy',
+            default: true,
+        },
+        duplicateSimilarity: {
+            type: 'number',
+            label: 'Duplicate Similarity (0.5-1)',
+            description: 'Share of cues (text and start time) two tracks must have in common to count as duplicates',
+            min: 0.5,
+            max: 1,
+            default: 0.9,
+        },
+        filenameTemplate: {
+            type: 'string',
+            label: 'Output Filename Template',
+            description: 'Placeholders: any existingMeta field, {cid}, {basename}, {track}, {lang}, {index}, {forced}, {sdh}, {commentary}, {cc}, {variant}, {ext}; <...> is optional, / makes subdirectories',
+            default: DEFAULT_FILENAME_TEMPLATE,
         },
     },
 };
 
+type StreamProbeMode = 'off' | 'fallback' | 'verify';
+
 // Configuration
 let forceRecompute = false;
-let outputFormat = 'srt';
+let outputFormats: SubtitleFormat[] = ['srt'];
+let trackFilter: TrackFilterConfig = parseTrackFilterConfig({});
+let streamProbe: StreamProbeMode = 'fallback';
+let onlyIfNoExternalSubtitle = false;
+let ingestSidecars = false;
+let preserveBitmapSubtitles = false;
+let ocrEnabled = false;
+let ocrCommand = 'tesseract';
+let ocrProvider: OcrProvider = new TesseractOcrProvider(ocrCommand, RAW_SUBTITLE_PATH);
+// Set by setOcrProvider(); configure() then leaves the provider alone
+let customOcrProvider = false;
+let closedCaptions = false;
+let closedCaptionProbe = false;
+let closedCaptionTimeoutMs = 120000;
+let languageStyle: LanguageStyle = 'iso639-2';
+let languageDetection = true;
+let languageDetectionThreshold = 0.6;
+let sourceEncoding: string | undefined;
+let outputEncoding: OutputEncodingOptions = { bom: false, lineEnding: 'lf' };
+let filenameTemplate: FilenameTemplate = parseFilenameTemplate(DEFAULT_FILENAME_TEMPLATE);
+let cleanup: CleanupConfig = { stripHearingImpaired: false, stripStyling: false, removeAds: false, adPattern: null, mergeCues: false };
+let qualityThresholds: QualityThresholds = { warnBelow: 70, dropBelow: 30 };
+let linkDuplicates = true;
+let duplicateSimilarity = 0.9;
+
+/**
+ * Read the requested output formats
+ * Accepts an array, a comma-separated string, or the legacy single `outputFormat` value
+ */
+function parseOutputFormats(config: Record<string, unknown>): SubtitleFormat[] {
+    const formats = parseList(config.outputFormats ?? config.outputFormat)
+        .filter((f): f is SubtitleFormat => f in FORMAT_ENCODER);
+    return formats.length > 0 ? [...new Set(formats)] : ['srt'];
+}
+
+/**
+ * Check a /configure request against the manifest, plus the checks that need plugin code
+ */
+export function validateConfiguration(config: Record<string, unknown>): ConfigValidationResult {
+    const result = validateConfig(config, manifest.config ?? {}, {
+        filenameTemplate: (value) => {
+            if (typeof value !== 'string' || !value.trim()) return null;
+            try {
+                parseFilenameTemplate(value.trim());
+                return null;
+            } catch (e) {
+                return e instanceof Error ? e.message : String(e);
+            }
+        },
+        adPattern: (value) => {
+            try {
+                compileAdPattern(String(value));
+                return null;
+            } catch (e) {
+                return `Invalid regular expression: ${e instanceof Error ? e.message : String(e)}`;
+            }
+        },
+        sourceEncoding: (value) =>
+            typeof value === 'string' && value.trim() && !isSupportedEncoding(value.trim().toLowerCase())
+                ? `Unknown encoding "${value}"`
+                : null,
+    });
+
+    // Legacy single-format option, still honoured when outputFormats is not given
+    if (config.outputFormat !== undefined && config.outputFormats === undefined) {
+        delete result.config.outputFormats;
+        if (!(typeof config.outputFormat === 'string' && config.outputFormat in FORMAT_ENCODER)) {
+            result.errors.outputFormat = `Must be one of: ${Object.keys(FORMAT_ENCODER).join(', ')}`;
+        }
+    }
+
+    const { qualityWarnThreshold: warn, qualityDropThreshold: drop } = result.config;
+    if (!result.errors.qualityWarnThreshold && !result.errors.qualityDropThreshold && Number(drop) > Number(warn)) {
+        result.errors.qualityDropThreshold = `Must not be above qualityWarnThreshold (${warn})`;
+    }
+    return result;
+}
+
+/**
+ * Configuration currently in effect, after defaults and normalization
+ */
+export function getEffectiveConfig(): Record<string, unknown> {
+    return {
+        forceRecompute,
+        outputFormats,
+        languageStyle,
+        languageAllowList: trackFilter.languageAllowList.join(','),
+        languageDenyList: trackFilter.languageDenyList.join(','),
+        maxTracksPerLanguage: trackFilter.maxTracksPerLanguage,
+        skipForced: trackFilter.skipForced,
+        skipSdh: trackFilter.skipSdh,
+        skipCommentary: trackFilter.skipCommentary,
+        detectLanguage: languageDetection,
+        languageDetectionThreshold,
+        sourceEncoding: sourceEncoding ?? '',
+        outputBom: outputEncoding.bom,
+        lineEnding: outputEncoding.lineEnding,
+        streamProbe,
+        onlyIfNoExternalSubtitle,
+        ingestSidecars,
+        preserveBitmapSubtitles,
+        ocrBitmapSubtitles: ocrEnabled,
+        ocrCommand,
+        extractClosedCaptions: closedCaptions,
+        probeClosedCaptions: closedCaptionProbe,
+        closedCaptionTimeout: closedCaptionTimeoutMs / 1000,
+        cleanupHearingImpaired: cleanup.stripHearingImpaired,
+        cleanupStyling: cleanup.stripStyling,
+        cleanupAds: cleanup.removeAds,
+        adPattern: cleanup.adPattern?.source ?? '',
+        cleanupMergeCues: cleanup.mergeCues,
+        qualityWarnThreshold: qualityThresholds.warnBelow,
+        qualityDropThreshold: qualityThresholds.dropBelow,
+        linkDuplicates,
+        duplicateSimilarity,
+        filenameTemplate: filenameTemplate.source,
+    };
+}
+
+/**
+ * Settings recorded in the output manifest, grouped by what a change means for earlier files
+ */
+function currentOutputSettings(): OutputSettings {
+    // Neither changes what a finished run produces
+    const { forceRecompute: _, closedCaptionTimeout: __, ...config } = getEffectiveConfig();
+    const settings: OutputSettings = { content: {}, outputs: {} };
+    for (const [key, value] of Object.entries(config)) {
+        settings[CONTENT_SETTINGS.has(key) ? 'content' : 'outputs'][key] = value;
+    }
+    // A different engine reads the same images differently
+    if (ocrEnabled) {
+        settings.content.ocrEngine = ocrProvider.name;
+    }
+    return settings;
+}
 
 export function configure(config: Record<string, unknown>): void {
+    const previous = getEffectiveConfig();
+
+    // Validated first so a bad template rejects the whole configuration
+    const template = typeof config.filenameTemplate === 'string' && config.filenameTemplate.trim()
+        ? config.filenameTemplate.trim()
+        : DEFAULT_FILENAME_TEMPLATE;
+    try {
+        filenameTemplate = parseFilenameTemplate(template);
+    } catch (e) {
+        throw new Error(`Invalid filenameTemplate: ${e instanceof Error ? e.message : String(e)}`);
+    }
+
     forceRecompute = config.forceRecompute === true;
-    outputFormat = (config.outputFormat as string) || 'srt';
-    console.log(`[subtitle-extractor] Config: forceRecompute=${forceRecompute}, outputFormat=${outputFormat}`);
+    outputFormats = parseOutputFormats(config);
+    trackFilter = parseTrackFilterConfig(config);
+    streamProbe = config.streamProbe === 'off' || config.streamProbe === 'verify' ? config.streamProbe : 'fallback';
+    onlyIfNoExternalSubtitle = config.onlyIfNoExternalSubtitle === true;
+    ingestSidecars = config.ingestSidecars === true;
+    preserveBitmapSubtitles = config.preserveBitmapSubtitles === true;
+    ocrEnabled = config.ocrBitmapSubtitles === true;
+    ocrCommand = typeof config.ocrCommand === 'string' && config.ocrCommand.trim() ? config.ocrCommand.trim() : 'tesseract';
+    if (!customOcrProvider) {
+        ocrProvider = new TesseractOcrProvider(ocrCommand, RAW_SUBTITLE_PATH);
+    }
+    closedCaptions = config.extractClosedCaptions === true;
+    closedCaptionProbe = config.probeClosedCaptions === true;
+    const captionTimeout = Number(config.closedCaptionTimeout ?? 120);
+    closedCaptionTimeoutMs = (Number.isFinite(captionTimeout) ? captionTimeout : 120) * 1000;
+    languageStyle = isLanguageStyle(config.languageStyle) ? config.languageStyle : 'iso639-2';
+    languageDetection = config.detectLanguage !== false;
+    const threshold = Number(config.languageDetectionThreshold ?? 0.6);
+    languageDetectionThreshold = Number.isFinite(threshold) ? threshold : 0.6;
+    const encoding = typeof config.sourceEncoding === 'string' ? config.sourceEncoding.trim().toLowerCase() : '';
+    if (encoding && !isSupportedEncoding(encoding)) {
+        console.warn(`[subtitle-extractor] Unknown sourceEncoding "${encoding}", falling back to auto-detection`);
+    }
+    sourceEncoding = encoding && isSupportedEncoding(encoding) ? encoding : undefined;
+    outputEncoding = {
+        bom: config.outputBom === true,
+        lineEnding: config.lineEnding === 'crlf' ? 'crlf' : 'lf',
+    };
+    cleanup = {
+        stripHearingImpaired: config.cleanupHearingImpaired === true,
+        stripStyling: config.cleanupStyling === true,
+        removeAds: config.cleanupAds === true,
+        adPattern: config.cleanupAds === true ? compileAdPattern(typeof config.adPattern === 'string' ? config.adPattern : undefined) : null,
+        mergeCues: config.cleanupMergeCues === true,
+    };
+    const warnBelow = Number(config.qualityWarnThreshold ?? 70);
+    const dropBelow = Number(config.qualityDropThreshold ?? 30);
+    qualityThresholds = {
+        warnBelow: Number.isFinite(warnBelow) ? warnBelow : 70,
+        dropBelow: Number.isFinite(dropBelow) ? dropBelow : 30,
+    };
+    linkDuplicates = config.linkDuplicates !== false;
+    const similarity = Number(config.duplicateSimilarity ?? 0.9);
+    duplicateSimilarity = Number.isFinite(similarity) ? similarity : 0.9;
+    // Only what this call changed, so repeated /configure calls stay readable
+    const changes = Object.entries(getEffectiveConfig())
+        .filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(previous[key]))
+        .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join(',') : value}`);
+    console.log(`[subtitle-extractor] ${changes.length > 0 ? `Config changed: ${changes.join(', ')}` : 'Config unchanged'}`);
+}
+
+/**
+ * Replace the OCR engine, e.g. with a StaticOcrProvider in tests
+ * Used for every OCR'd track while `ocrBitmapSubtitles` is on; null restores tesseract.
+ */
+export function setOcrProvider(provider: OcrProvider | null): void {
+    customOcrProvider = provider !== null;
+    ocrProvider = provider ?? new TesseractOcrProvider(ocrCommand, RAW_SUBTITLE_PATH);
+}
+
+/**
+ * Remove what a crashed or killed run left behind: temp files in /output and raw extractions
+ */
+export function cleanupLeftovers(): void {
+    const temps = removeTempFiles(PLUGIN_OUTPUT_PATH);
+    let raws = 0;
+    if (existsSync(RAW_SUBTITLE_PATH)) {
+        for (const name of readdirSync(RAW_SUBTITLE_PATH)) {
+            try {
+                unlinkSync(path.join(RAW_SUBTITLE_PATH, name));
+                raws++;
+            } catch {}
+        }
+    }
+    if (temps + raws > 0) {
+        console.log(`[subtitle-extractor] Removed ${temps} leftover temp file(s) and ${raws} raw extraction(s)`);
+    }
 }
 
 /**
@@ -158,147 +642,550 @@ function computeMidHash256Sync(filePath: string): string {
     return cid;
 }
 
-/**
- * Sanitize filename by removing invalid characters
- */
-function sanitizeFilename(name: string): string {
-    return name
-        .replace(/[<>:"/\\|?*]/g, '')
-        .replace(/\s+/g, ' ')
-        .trim();
-}
+// Every kind of file written to /output; `idx` is the index next to a VobSub `.sub`
+type OutputFormat = SubtitleFormat | BitmapFormat | 'idx';
 
 /**
- * Parse subtitle streams from ffmpeg plugin metadata
+ * Descriptor for one published subtitle file, stored as JSON in `subtitleTracks`
  */
-interface SubtitleStream {
-    index: number;
+interface SubtitleTrackDescriptor {
+    cid: string;
+    fileName: string;
+    format: OutputFormat;
     codec: string;
+    source: 'embedded' | 'external' | 'closed-captions';
+    // Sidecar file the track was read from, relative to the video's directory
+    externalFile?: string;
+    // Stream order for embedded tracks, discovery order for external ones
+    subtitleIndex: number;
+    streamIndex?: number;
     language?: string;
     title?: string;
+    forced: boolean;
+    default: boolean;
+    sdh: boolean;
+    commentary: boolean;
+    cc: boolean;
+    // Image-based track kept as is (`.sup`, or `.sub` with its `.idx`)
+    bitmap: boolean;
+    detectedLanguage?: string;
+    languageConfidence?: number;
+    sourceEncoding?: string;
+    variant?: SubtitleVariant;
+    cleanup?: CleanupStats;
+    // Absent for files reused from an earlier run
+    quality?: QualityReport;
+    // Set when the file was published for another video and linked here as a duplicate
+    linkedFrom?: { videoCid: string; similarity: number };
+    // Set for text recognized from an image-based track
+    ocr?: OcrSummary;
+    // The `.idx` belonging to a VobSub `.sub`
+    indexFile?: string;
+    indexCid?: string;
 }
 
-function parseSubtitleStreams(existingMeta: Record<string, string>): SubtitleStream[] {
-    const streams: SubtitleStream[] = [];
+// Per-file fields of a descriptor, as opposed to those describing the source track
+type FileDetails = Pick<SubtitleTrackDescriptor, 'variant' | 'cleanup' | 'linkedFrom' | 'indexFile' | 'indexCid'>;
 
-    // ffmpeg plugin stores streams as JSON in 'streams' field
-    // or as individual fields like 'subtitle_0_codec', 'subtitle_0_language', etc.
-    const streamsJson = existingMeta['streams'];
-    if (streamsJson) {
-        try {
-            const allStreams = JSON.parse(streamsJson) as Array<{
-                codec_type?: string;
-                codec_name?: string;
-                index?: number;
-                tags?: { language?: string; title?: string };
-            }>;
-            let subtitleIndex = 0;
-            for (const stream of allStreams) {
-                if (stream.codec_type === 'subtitle') {
-                    streams.push({
-                        index: subtitleIndex,
-                        codec: stream.codec_name || 'unknown',
-                        language: stream.tags?.language,
-                        title: stream.tags?.title,
-                    });
-                    subtitleIndex++;
-                }
-            }
-        } catch {
-            // Fall through to individual field parsing
-        }
+/**
+ * A single subtitle track to write during an extraction pass
+ */
+interface ExtractionJobBase {
+    subtitleIndex: number;
+    outputPath: string;
+    // Name in logs when the subtitle index alone is ambiguous
+    label?: string;
+}
+
+interface TextExtractionJob extends ExtractionJobBase {
+    format: SubtitleFormat;
+    copy: boolean;
+    bitmap?: false;
+    // Source encoding of a transcoded track, found on its packets or forced by sourceEncoding
+    charset?: string;
+}
+
+// Image-based tracks are always copied; VobSub is copied into a Matroska file first
+interface BitmapExtractionJob extends ExtractionJobBase {
+    format: BitmapFormat;
+    copy: true;
+    bitmap: true;
+}
+
+type ExtractionJob = TextExtractionJob | BitmapExtractionJob;
+
+interface ExtractionResult {
+    job: ExtractionJob;
+    success: boolean;
+    size?: number;
+    error?: string;
+    // Killed because the pass ran out of time
+    timedOut?: boolean;
+}
+
+// Time kept in reserve from the manifest timeout for CID computation and callbacks
+const EXTRACTION_TIMEOUT_MARGIN_MS = 15000;
+
+// Probing the video decodes a few frames, which is quick but not free; raw files are small
+const PROBE_TIMEOUT_MS = 30000;
+
+/**
+ * ffmpeg input options for the subtitle streams of the video file
+ */
+function fileInput(inputPath: string, inputCharset?: string): string[] {
+    const args = ['-probesize', '1M', '-analyzeduration', '1M'];
+    // Only affects transcoded tracks; copied tracks keep their bytes
+    if (inputCharset) {
+        args.push('-sub_charenc', inputCharset);
     }
+    args.push('-i', inputPath);
+    return args;
+}
+
+/**
+ * ffmpeg input exposing the closed captions of the first video stream as subtitle stream 0
+ *
+ * The lavfi `movie` source decodes the video and emits its CEA-608/708 captions on the
+ * `+subcc` output. The path is escaped twice: once as a filter option, once for the filtergraph.
+ */
+function closedCaptionInput(inputPath: string): string[] {
+    const escaped = inputPath.replace(/[\\':]/g, '\\$&').replace(/[\\'[\],;]/g, '\\$&');
+    return ['-f', 'lavfi', '-i', `movie=${escaped}[out0+subcc]`];
+}
 
-    // Fallback: parse individual fields
-    if (streams.length === 0) {
-        for (let i = 0; i < 20; i++) {
-            const codec = existingMeta[`subtitle_${i}_codec`];
-            if (codec) {
-                streams.push({
-                    index: i,
-                    codec,
-                    language: existingMeta[`subtitle_${i}_language`],
-                    title: existingMeta[`subtitle_${i}_title`],
+/**
+ * List the streams of the video with ffprobe, in the format the ffmpeg plugin stores
+ * Resolves to null when ffprobe fails or times out.
+ */
+function probeStreams(inputPath: string, signal?: AbortSignal): Promise<ProbedStream[] | null> {
+    return new Promise((resolve) => {
+        const args = ['-v', 'error', '-show_streams', '-of', 'json', inputPath];
+        const ffprobe = spawn('ffprobe', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+
+        let stdout = '';
+        let stderr = '';
+        ffprobe.stdout?.on('data', (data) => {
+            stdout += data.toString();
+        });
+        ffprobe.stderr?.on('data', (data) => {
+            stderr += data.toString();
+        });
+
+        const timer = setTimeout(() => ffprobe.kill('SIGKILL'), PROBE_TIMEOUT_MS);
+        const release = killOnAbort(ffprobe, signal);
+        ffprobe.on('close', (code) => {
+            clearTimeout(timer);
+            release();
+            try {
+                if (code !== 0) throw new Error(stderr.slice(0, 200) || `exited with code ${code}`);
+                const streams = (JSON.parse(stdout) as { streams?: ProbedStream[] }).streams;
+                if (!Array.isArray(streams)) throw new Error('no stream list in output');
+                resolve(streams);
+            } catch (e) {
+                console.log(`[subtitle-extractor] ffprobe failed: ${e instanceof Error ? e.message : e}`);
+                resolve(null);
+            }
+        });
+        ffprobe.on('error', (err) => {
+            clearTimeout(timer);
+            release();
+            console.log(`[subtitle-extractor] ffprobe error: ${err.message}`);
+            resolve(null);
+        });
+    });
+}
+
+/**
+ * Kill a probe as soon as its job is cancelled
+ * Returns the cleanup to run once the probe has exited.
+ */
+function killOnAbort(child: ChildProcess, signal?: AbortSignal): () => void {
+    const cancel = () => child.kill('SIGKILL');
+    if (signal?.aborted) cancel();
+    signal?.addEventListener('abort', cancel, { once: true });
+    return () => signal?.removeEventListener('abort', cancel);
+}
+
+/**
+ * Ask ffprobe whether the first video stream carries closed captions
+ * Resolves to false when ffprobe fails or times out.
+ */
+function probeClosedCaptions(inputPath: string, signal?: AbortSignal): Promise<boolean> {
+    return new Promise((resolve) => {
+        const args = ['-v', 'error', '-select_streams', 'v:0', '-show_entries', 'stream=closed_captions', '-of', 'csv=p=0', inputPath];
+        const ffprobe = spawn('ffprobe', args, { stdio: ['ignore', 'pipe', 'ignore'] });
+
+        let stdout = '';
+        ffprobe.stdout?.on('data', (data) => {
+            stdout += data.toString();
+        });
+
+        const timer = setTimeout(() => ffprobe.kill('SIGKILL'), PROBE_TIMEOUT_MS);
+        const release = killOnAbort(ffprobe, signal);
+        ffprobe.on('close', (code) => {
+            clearTimeout(timer);
+            release();
+            resolve(code === 0 && stdout.trim().startsWith('1'));
+        });
+        ffprobe.on('error', (err) => {
+            clearTimeout(timer);
+            release();
+            console.log(`[subtitle-extractor] ffprobe error: ${err.message}`);
+            resolve(false);
+        });
+    });
+}
+
+/**
+ * Read the packets and codec private data of the single stream in a raw extraction
+ * Used for VobSub, whose idx header (size, palette) is the Matroska codec private data.
+ * With `select`, reads the packets of every subtitle stream of a video in its first
+ * `maxSeconds` instead; `subtitleIndex` tells the streams apart.
+ */
+function probeSubtitlePackets(
+    filePath: string,
+    signal?: AbortSignal,
+    select?: { maxSeconds: number }
+): Promise<{ header: string; packets: Array<SpuPacket & { subtitleIndex: number }> }> {
+    return new Promise((resolve, reject) => {
+        const selection = select ? ['-select_streams', 's', '-read_intervals', `%+${select.maxSeconds}`] : [];
+        const args = ['-v', 'error', ...selection, '-show_streams', '-show_packets', '-show_data', '-of', 'json', filePath];
+        const ffprobe = spawn('ffprobe', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+
+        const stdout: Buffer[] = [];
+        let stderr = '';
+        ffprobe.stdout?.on('data', (data: Buffer) => stdout.push(data));
+        ffprobe.stderr?.on('data', (data) => {
+            stderr += data.toString();
+        });
+
+        const timer = setTimeout(() => ffprobe.kill('SIGKILL'), PROBE_TIMEOUT_MS);
+        const release = killOnAbort(ffprobe, signal);
+        ffprobe.on('close', (code) => {
+            clearTimeout(timer);
+            release();
+            if (code !== 0) {
+                reject(new Error(stderr.slice(0, 200) || `ffprobe exited with code ${code}`));
+                return;
+            }
+            try {
+                const output = JSON.parse(Buffer.concat(stdout).toString('utf-8')) as {
+                    streams?: Array<{ index?: number; extradata?: string }>;
+                    packets?: Array<{ stream_index?: number; pts_time?: string; data?: string }>;
+                };
+                const streams = output.streams ?? [];
+                resolve({
+                    header: parseHexDump(streams[0]?.extradata ?? '').toString('latin1'),
+                    packets: (output.packets ?? []).map(p => ({
+                        pts: parseFloat(p.pts_time ?? '0') * 1000,
+                        data: parseHexDump(p.data ?? ''),
+                        subtitleIndex: Math.max(streams.findIndex(s => s.index === p.stream_index), 0),
+                    })),
                 });
+            } catch (e) {
+                reject(e);
             }
-        }
+        });
+        ffprobe.on('error', (err) => {
+            clearTimeout(timer);
+            release();
+            reject(err);
+        });
+    });
+}
+
+/**
+ * Why an extracted file is unusable, or null when it is fine
+ * Text tracks must parse to at least one cue; image-based tracks are only checked for size.
+ */
+function checkExtractedOutput(job: ExtractionJob): string | null {
+    if (!existsSync(job.outputPath)) return 'ffmpeg produced no output';
+    if (statSync(job.outputPath).size <= 10) return 'Empty output';
+    if (job.bitmap) return null;
+    // Structure only: the text may still be in its source encoding, which latin1 reads without loss
+    const doc = parseSubtitle(readFileSync(job.outputPath, 'latin1'), job.format);
+    return doc.cues.length > 0 ? null : 'Output has no readable cues';
+}
+
+// Part of the video read to detect the encoding of transcoded tracks; dialogue from the first
+// minutes is plenty, and a time bound keeps interleaved files from being demuxed much further
+const ENCODING_PROBE_SECONDS = 300;
+
+/**
+ * Detect the encoding of tracks ffmpeg transcodes (mov_text, text) from their raw packets
+ * All tracks are read in one ffprobe pass. Tracks without readable packets are left out;
+ * ffmpeg then assumes UTF-8 as before.
+ */
+async function detectPacketEncodings(inputPath: string, subs: SubtitleStream[], signal?: AbortSignal): Promise<Map<SubtitleStream, EncodingGuess>> {
+    const guesses = new Map<SubtitleStream, EncodingGuess>();
+    let packets: Array<SpuPacket & { subtitleIndex: number }>;
+    try {
+        ({ packets } = await probeSubtitlePackets(inputPath, signal, { maxSeconds: ENCODING_PROBE_SECONDS }));
+    } catch (e) {
+        console.log(`[subtitle-extractor] Could not read the subtitle packets to detect their encoding: ${e instanceof Error ? e.message : e}`);
+        return guesses;
     }
 
-    return streams;
+    for (const sub of subs) {
+        // mov_text samples start with a 16-bit text length, followed by the text and optional style boxes
+        const texts = packets
+            .filter(packet => packet.subtitleIndex === sub.index)
+            .map(({ data }) => sub.codec === 'mov_text' && data.length >= 2 ? data.subarray(2, 2 + data.readUInt16BE(0)) : data);
+        const bytes = Buffer.concat(texts.flatMap(text => [text, Buffer.from('\n')]));
+        if (bytes.length > texts.length) guesses.set(sub, detectEncoding(bytes));
+    }
+    return guesses;
 }
 
 /**
- * Extract a subtitle track using ffmpeg
+ * Encoding a job needs its own `-sub_charenc` input for, or undefined for the default input
+ * Copied tracks keep their bytes, so only transcoded tracks in another encoding than the default count.
  */
-async function extractSubtitle(
-    inputPath: string,
-    outputPath: string,
-    subtitleIndex: number,
-    codec: string
-): Promise<boolean> {
-    return new Promise((resolve) => {
-        // Determine output codec based on format
-        let outputCodec = 'srt';
-        if (outputFormat === 'vtt') {
-            outputCodec = 'webvtt';
-        } else if (outputFormat === 'ass') {
-            outputCodec = 'ass';
-        }
+function inputCharset(job: ExtractionJob): string | undefined {
+    if (job.bitmap || job.copy || !job.charset) return undefined;
+    return job.charset === (sourceEncoding ?? 'utf-8') ? undefined : job.charset;
+}
 
+/**
+ * Extract several subtitle tracks using a single ffmpeg run
+ *
+ * The input is opened once and every job gets its own `-map 0:s:N` output.
+ * Each output is checked separately so one bad track does not hide the others.
+ * `-sub_charenc` applies to a whole input, so transcoded tracks in another encoding
+ * get the same file opened again as an extra input with their own `-sub_charenc`.
+ */
+async function extractSubtitles(
+    input: (charset?: string) => string[],
+    jobs: ExtractionJob[],
+    timeoutMs: number,
+    signal?: AbortSignal
+): Promise<ExtractionResult[]> {
+    return new Promise((resolve) => {
+        const charsets = [...new Set(jobs.map(inputCharset))];
         const args = [
             '-y',
             '-hide_banner',
             '-loglevel', 'error',
-            '-probesize', '1M',
-            '-analyzeduration', '1M',
-            '-i', inputPath,
-            '-map', `0:s:${subtitleIndex}`,
-            '-c:s', outputCodec,
-            outputPath
+            ...charsets.flatMap(charset => input(charset)),
         ];
+        for (const job of jobs) {
+            const inputIndex = charsets.indexOf(inputCharset(job));
+            args.push('-map', `${inputIndex}:s:${job.subtitleIndex}`, '-c:s', job.copy ? 'copy' : FORMAT_ENCODER[job.format], job.outputPath);
+        }
 
-        console.log(`[subtitle-extractor] Running ffmpeg for subtitle ${subtitleIndex}`);
+        const indices = jobs.map(j => j.label ?? j.subtitleIndex).join(', ');
+        console.log(`[subtitle-extractor] Running ffmpeg for subtitle(s) ${indices}`);
 
         const ffmpeg = spawn('ffmpeg', args, { stdio: ['ignore', 'pipe', 'pipe'] });
 
         let stderr = '';
+        let settled = false;
+        let timedOut = false;
+
         ffmpeg.stderr?.on('data', (data) => {
             stderr += data.toString();
         });
 
-        ffmpeg.on('close', (code) => {
-            if (code === 0 && existsSync(outputPath)) {
-                const size = statSync(outputPath).size;
-                if (size > 10) {
-                    console.log(`[subtitle-extractor] Extracted subtitle ${subtitleIndex} (${size} bytes)`);
-                    resolve(true);
-                } else {
-                    console.log(`[subtitle-extractor] Subtitle ${subtitleIndex} extraction produced empty file`);
-                    try { unlinkSync(outputPath); } catch {}
-                    resolve(false);
+        // `killed`: ffmpeg was stopped midway, so every output may be truncated.
+        // `error`: ffmpeg failed; outputs that are complete on their own are still used.
+        const finish = ({ killed, error }: { killed?: string; error?: string } = {}) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', cancel);
+
+            const results = jobs.map((job): ExtractionResult => {
+                const problem = killed ?? checkExtractedOutput(job);
+                if (!problem) {
+                    const size = statSync(job.outputPath).size;
+                    console.log(`[subtitle-extractor] Extracted subtitle ${job.label ?? job.subtitleIndex} (${size} bytes)`);
+                    return { job, success: true, size };
                 }
+
+                try { unlinkSync(job.outputPath); } catch {}
+                // One broken stream makes ffmpeg fail the whole pass; its message is kept with the broken tracks
+                const reason = killed ?? (error ? `${problem} (${error})` : problem);
+                console.log(`[subtitle-extractor] Failed to extract subtitle ${job.label ?? job.subtitleIndex}: ${reason}`);
+                return { job, success: false, error: reason, timedOut };
+            });
+            resolve(results);
+        };
+
+        ffmpeg.on('close', (code) => {
+            if (signal?.aborted) {
+                finish({ killed: 'Cancelled' });
+            } else if (timedOut) {
+                finish({ killed: `Timed out after ${Math.round(timeoutMs / 1000)}s` });
+            } else if (code !== 0) {
+                const error = stderr.trim().slice(0, 200) || `ffmpeg exited with code ${code}`;
+                console.log(`[subtitle-extractor] ffmpeg failed, checking each output: ${error}`);
+                finish({ error });
             } else {
-                console.log(`[subtitle-extractor] Failed to extract subtitle ${subtitleIndex}: ${stderr.slice(0, 200)}`);
-                resolve(false);
+                finish();
             }
         });
 
         ffmpeg.on('error', (err) => {
             console.log(`[subtitle-extractor] ffmpeg error: ${err.message}`);
-            resolve(false);
+            finish({ killed: err.message });
         });
 
-        // Timeout after 2 minutes per subtitle
-        setTimeout(() => {
+        // Single budget for the whole pass instead of one per track
+        const timer = setTimeout(() => {
+            timedOut = true;
             ffmpeg.kill('SIGKILL');
-            resolve(false);
-        }, 120000);
+        }, Math.max(timeoutMs, 0));
+
+        // A cancelled job kills its ffmpeg right away
+        const cancel = () => ffmpeg.kill('SIGKILL');
+        signal?.addEventListener('abort', cancel, { once: true });
     });
 }
 
+/**
+ * Formats to write for a track
+ * Styled ASS is only kept for ASS/SSA sources; converting plain text to ASS adds nothing.
+ * Falls back to SRT when ASS was the only requested format for a non-ASS track.
+ */
+function formatsForCodec(codec: string): SubtitleFormat[] {
+    if (CODEC_NATIVE_FORMAT[codec] === 'ass') return outputFormats;
+    const formats = outputFormats.filter(f => f !== 'ass');
+    return formats.length > 0 ? formats : ['srt'];
+}
+
+interface LoadedSubtitle {
+    doc: SubtitleDocument;
+    encoding: string;
+    // Cues with text that were dropped for ending before they start
+    invalidTimings: number;
+    // Set when the cues come from OCR
+    ocr?: OcrSummary;
+}
+
+/**
+ * Decode and parse subtitle bytes, dropping cues with nothing to show or with inverted timings
+ */
+function loadSubtitle(
+    buffer: Buffer,
+    format: SubtitleFormat,
+    forcedEncoding: string | undefined,
+    label: string
+): LoadedSubtitle {
+    const { text, encoding, confidence } = decodeSubtitleBuffer(buffer, forcedEncoding);
+    if (encoding !== 'utf-8') {
+        console.log(`[subtitle-extractor] ${label} decoded as ${encoding} (confidence ${confidence})`);
+    }
+
+    const doc = parseSubtitle(text, format);
+    const withText = doc.cues.filter(cue => cue.text.trim() !== '');
+    doc.cues = withText.filter(cue => cue.end > cue.start);
+    if (doc.cues.length === 0) {
+        throw new Error(`No cues in ${label.toLowerCase()}`);
+    }
+    return { doc, encoding, invalidTimings: withText.length - doc.cues.length };
+}
+
+/**
+ * Parse a raw extracted track
+ *
+ * ffmpeg only demuxes the track to its closest text format; parsing and
+ * serialization happen in subtitles.ts so the cues can be post-processed
+ * before anything reaches /output. Copied tracks still carry their original
+ * bytes, so their encoding is detected (or forced) here.
+ */
+function readExtractedSubtitle(job: TextExtractionJob): LoadedSubtitle {
+    const label = `Subtitle ${job.label ?? job.subtitleIndex}`;
+    if (job.copy) {
+        return loadSubtitle(readFileSync(job.outputPath), job.format, sourceEncoding, label);
+    }
+    // Transcoded tracks come out of ffmpeg as UTF-8 already, decoded from `charset` with -sub_charenc
+    return { ...loadSubtitle(readFileSync(job.outputPath), job.format, 'utf-8', label), encoding: job.charset ?? 'utf-8' };
+}
+
+/**
+ * Short name of a track for logs and failure reasons: its id, or the sidecar filename
+ */
+function trackLabel(sub: SubtitleStream): string {
+    return sub.externalPath ? path.basename(sub.externalPath) : trackId(sub);
+}
+
+/**
+ * Delete a file of an earlier run from /output, with the directories it leaves empty
+ * Leaves it alone when its content changed since, or when another video links it.
+ */
+function removeOutputFile(file: ManifestFile, videoCid: string): boolean {
+    const outputPath = path.join(PLUGIN_OUTPUT_PATH, file.fileName);
+    if (!existsSync(outputPath)) return true;
+    if (computeMidHash256Sync(outputPath) !== file.cid) {
+        console.log(`[subtitle-extractor] Not removing ${file.fileName}, it was changed since it was written`);
+        return false;
+    }
+    if (outputManifests.isLinkedElsewhere(file.fileName, videoCid)) {
+        console.log(`[subtitle-extractor] Not removing ${file.fileName}, another video links it`);
+        return false;
+    }
+
+    unlinkSync(outputPath);
+    subtitleIndex.remove(file.fileName);
+    for (let dir = path.dirname(outputPath); dir !== PLUGIN_OUTPUT_PATH && readdirSync(dir).length === 0; dir = path.dirname(dir)) {
+        rmdirSync(dir);
+    }
+    return true;
+}
+
+/**
+ * Record the files of a finished run, removing the ones an earlier run produced and this one did not
+ *
+ * After an incomplete run (some tracks failed), earlier files stay and are kept in the manifest,
+ * so the next complete run can still remove them. The video's subtitle sets are rebuilt when
+ * a CID they list is gone, as meta-core cannot remove single members.
+ * An incomplete run keeps the earlier content settings, so a rewrite it started is finished next time.
+ */
+async function reconcileOutputs(
+    metaCore: MetaCoreClient,
+    videoCid: string,
+    previous: OutputManifest | null,
+    produced: ManifestFile[],
+    settings: OutputSettings,
+    complete: boolean,
+    job?: Job
+): Promise<void> {
+    const producedNames = new Set(produced.map(f => f.fileName));
+    const kept: ManifestFile[] = [];
+    for (const file of previous?.files ?? []) {
+        // Linked files belong to another video; only the link goes
+        if (producedNames.has(file.fileName) || file.linked) continue;
+        if (!complete) {
+            kept.push(file);
+            continue;
+        }
+        try {
+            if (removeOutputFile(file, videoCid)) {
+                console.log(`[subtitle-extractor] Removed ${file.fileName}, no longer produced`);
+                job?.recordTrack({ track: file.fileName, status: 'removed', fileName: file.fileName });
+            }
+        } catch (e) {
+            console.error(`[subtitle-extractor] Failed to remove ${file.fileName}: ${e}`);
+            kept.push(file);
+        }
+    }
+
+    const files = [...produced, ...kept];
+    const subtitles = files.filter(f => !f.index);
+    const cids = new Set(subtitles.map(f => f.cid));
+    if (previous?.files.some(f => !f.index && !cids.has(f.cid))) {
+        await metaCore.replaceSet(videoCid, 'extractedSubtitles', [...cids]);
+        await metaCore.replaceSet(videoCid, 'subtitleLanguages', [...new Set(subtitles.flatMap(f => f.language ? [f.language] : []))]);
+    }
+
+    const recorded = complete || !previous ? settings : { ...settings, content: previous.settings.content };
+    outputManifests.save({ videoCid, settings: recorded, files, complete, updatedAt: new Date().toISOString() });
+}
+
 export async function process(
     request: ProcessRequest,
-    sendCallback: (payload: CallbackPayload) => Promise<void>
+    sendCallback: (payload: CallbackPayload) => Promise<void>,
+    job?: Job
 ): Promise<void> {
     const startTime = Date.now();
     const metaCore = new MetaCoreClient(request.metaCoreUrl);
@@ -317,8 +1204,33 @@ export async function process(
             return;
         }
 
-        // Skip if already extracted (unless forceRecompute)
-        if (existingMeta?.extractedSubtitles && !forceRecompute) {
+        // Skip videos whose outputs are complete and were made with the current settings
+        // (unless forceRecompute); a content setting change rewrites every file
+        const settings = currentOutputSettings();
+        const previousManifest = outputManifests.load(cid);
+        let rewrite = forceRecompute;
+        if (previousManifest && !forceRecompute) {
+            const changed = changedSettings(previousManifest.settings, settings);
+            const missingFiles = previousManifest.files.filter(f => !existsSync(path.join(PLUGIN_OUTPUT_PATH, f.fileName)));
+            if (previousManifest.complete && changed.content.length === 0 && changed.outputs.length === 0 && missingFiles.length === 0) {
+                await sendCallback({
+                    taskId: request.taskId,
+                    status: 'skipped',
+                    duration: Date.now() - startTime,
+                    reason: 'Subtitles already extracted',
+                });
+                return;
+            }
+            rewrite = changed.content.length > 0;
+            const reasons = [
+                ...(changed.content.length > 0 ? [`rewriting all files for ${changed.content.join(', ')}`] : []),
+                ...(changed.outputs.length > 0 ? [`changed ${changed.outputs.join(', ')}`] : []),
+                ...(missingFiles.length > 0 ? [`${missingFiles.length} file(s) missing`] : []),
+                ...(!previousManifest.complete ? ['retrying after an incomplete run'] : []),
+            ];
+            console.log(`[subtitle-extractor] Updating subtitles of ${filePath}: ${reasons.join('; ')}`);
+        } else if (existingMeta?.extractedSubtitles && !forceRecompute) {
+            // Extracted before manifests were kept; what it produced is unknown
             await sendCallback({
                 taskId: request.taskId,
                 status: 'skipped',
@@ -328,10 +1240,99 @@ export async function process(
             return;
         }
 
-        // Parse subtitle streams from ffmpeg metadata
-        const subtitleStreams = parseSubtitleStreams(existingMeta || {});
+        // Subtitle files shipped next to the video
+        job?.setStep('Looking for sidecar subtitles');
+        const sidecars = onlyIfNoExternalSubtitle || ingestSidecars
+            ? await listSidecarSubtitles(filePath, webdavClient)
+            : [];
+
+        // Leave videos alone that already ship with their own subtitle files
+        if (onlyIfNoExternalSubtitle) {
+            if (sidecars.length > 0) {
+                await sendCallback({
+                    taskId: request.taskId,
+                    status: 'skipped',
+                    duration: Date.now() - startTime,
+                    reason: `External subtitle exists: ${sidecars.map(f => path.basename(f)).join(', ')}`,
+                });
+                return;
+            }
+        }
 
-        if (subtitleStreams.length === 0) {
+        // Get input path (WebDAV URL or filesystem path)
+        let inputPath = filePath;
+        if (webdavClient) {
+            inputPath = webdavClient.toWebDAVUrl(filePath);
+            console.log(`[subtitle-extractor] Using WebDAV input: ${inputPath}`);
+        }
+
+        // Stream list from the ffmpeg plugin, replaced by our own ffprobe run when it is
+        // missing or unreadable, or on every video in verify mode
+        let streamMeta: Record<string, string> = existingMeta || {};
+        const metadataStatus = streamMetadataStatus(streamMeta);
+        if (streamProbe === 'verify' || (streamProbe === 'fallback' && metadataStatus !== 'present')) {
+            job?.setStep('Probing streams');
+            const probed = await probeStreams(inputPath, job?.signal);
+            job?.throwIfCancelled();
+            if (probed) {
+                // Legacy per-track fields would otherwise stand in for an empty probed list
+                const probedMeta = Object.fromEntries(Object.entries(streamMeta).filter(([key]) => !/^subtitle_\d+_/.test(key)));
+                probedMeta.streams = JSON.stringify(probed);
+                if (metadataStatus === 'present') {
+                    const differences = compareSubtitleStreams(parseSubtitleStreams(streamMeta), parseSubtitleStreams(probedMeta));
+                    if (differences.length > 0) {
+                        console.warn(`[subtitle-extractor] Stream metadata of ${filePath} disagrees with ffprobe, using ffprobe: ${differences.join('; ')}`);
+                    }
+                } else {
+                    console.log(`[subtitle-extractor] Stream metadata ${metadataStatus} for ${filePath}, using ffprobe`);
+                }
+                streamMeta = probedMeta;
+            }
+        }
+
+        // Languages are normalized up front so filters, filenames and metadata agree
+        const subtitleStreams = parseSubtitleStreams(streamMeta).map(stream => ({
+            ...stream,
+            language: normalizeLanguage(stream.language, languageStyle),
+        }));
+
+        // External files become tracks of their own, numbered in discovery order
+        const sidecarStreams: SubtitleStream[] = [];
+        for (const sidecarPath of ingestSidecars ? sidecars : []) {
+            const sidecar = describeSidecar(sidecarPath, filePath, languageStyle);
+            if (!sidecar) {
+                console.log(`[subtitle-extractor] Skipping image-based sidecar ${path.basename(sidecarPath)}`);
+                continue;
+            }
+            sidecarStreams.push({
+                index: sidecarStreams.length,
+                codec: sidecar.codec,
+                language: sidecar.language,
+                title: sidecar.title,
+                forced: sidecar.forced,
+                sdh: sidecar.sdh,
+                commentary: sidecar.commentary,
+                externalPath: sidecar.path,
+            });
+        }
+
+        // Closed captions live inside the video stream, so the subtitle stream list never shows them
+        const captionStreams: SubtitleStream[] = [];
+        if (closedCaptions) {
+            const captions = hasClosedCaptions(streamMeta);
+            let present = captions?.present ?? false;
+            if (captions === undefined && closedCaptionProbe) {
+                job?.setStep('Probing for closed captions');
+                present = await probeClosedCaptions(inputPath, job?.signal);
+                job?.throwIfCancelled();
+                console.log(`[subtitle-extractor] ffprobe found ${present ? '' : 'no '}closed captions in ${filePath}`);
+            }
+            if (present) {
+                captionStreams.push(closedCaptionStream(captions?.streamIndex));
+            }
+        }
+
+        if (subtitleStreams.length === 0 && sidecarStreams.length === 0 && captionStreams.length === 0) {
             await sendCallback({
                 taskId: request.taskId,
                 status: 'skipped',
@@ -341,10 +1342,21 @@ export async function process(
             return;
         }
 
-        // Filter out unsupported (image-based) codecs
+        // Filter out unsupported (image-based) codecs; PGS and VobSub can be kept as they are
         const textSubtitles = subtitleStreams.filter(s => !UNSUPPORTED_SUBTITLE_CODECS.has(s.codec));
+        const imageSubtitles = subtitleStreams.filter(s => s.codec in BITMAP_FORMAT);
+        // OCR only runs when its engine is installed; without it the tracks are skipped (or only kept)
+        let ocrSubtitles: SubtitleStream[] = ocrEnabled ? imageSubtitles : [];
+        // Earlier OCR output is kept while the engine is missing
+        let ocrUnavailable = false;
+        if (ocrSubtitles.length > 0 && !(await ocrProvider.isAvailable())) {
+            console.log(`[subtitle-extractor] OCR engine ${ocrProvider.name} is not available, image-based subtitles are not converted`);
+            ocrSubtitles = [];
+            ocrUnavailable = true;
+        }
+        const bitmapSubtitles = preserveBitmapSubtitles || ocrSubtitles.length > 0 ? imageSubtitles : [];
 
-        if (textSubtitles.length === 0) {
+        if (textSubtitles.length === 0 && sidecarStreams.length === 0 && captionStreams.length === 0 && bitmapSubtitles.length === 0) {
             console.log(`[subtitle-extractor] All ${subtitleStreams.length} subtitles are image-based, skipping`);
             await sendCallback({
                 taskId: request.taskId,
@@ -355,91 +1367,562 @@ export async function process(
             return;
         }
 
-        console.log(`[subtitle-extractor] Found ${textSubtitles.length} text-based subtitle(s) in ${filePath}`);
+        // Apply the library's language and flag filters
+        // One pass so maxTracksPerLanguage counts every kind of track; text tracks come first and win the cap
+        const { selected: selectedSubtitles, excluded } = filterTracks([...textSubtitles, ...sidecarStreams, ...captionStreams, ...bitmapSubtitles], trackFilter);
+        if (excluded.length > 0) {
+            console.log(`[subtitle-extractor] Excluded by filters: ${describeExcluded(excluded)}`);
+        }
 
-        // Get input path (WebDAV URL or filesystem path)
-        let inputPath = filePath;
-        if (webdavClient) {
-            inputPath = webdavClient.toWebDAVUrl(filePath);
-            console.log(`[subtitle-extractor] Using WebDAV input: ${inputPath}`);
+        if (selectedSubtitles.length === 0) {
+            // Everything published before the filters changed goes
+            if (previousManifest) {
+                await reconcileOutputs(metaCore, cid, previousManifest, [], settings, true, job);
+                await metaCore.deleteProperty(cid, 'subtitleTracks');
+                await metaCore.deleteProperty(cid, 'subtitleDuplicates');
+            }
+            await sendCallback({
+                taskId: request.taskId,
+                status: 'skipped',
+                duration: Date.now() - startTime,
+                reason: `All subtitles excluded by filters: ${describeExcluded(excluded)}`,
+            });
+            return;
         }
 
+        console.log(`[subtitle-extractor] Found ${textSubtitles.length} text-based subtitle(s), ${imageSubtitles.length} image-based subtitle(s) to ${[preserveBitmapSubtitles && 'keep', ocrSubtitles.length > 0 && 'OCR'].filter(Boolean).join(' and ') || 'skip'}, ${sidecarStreams.length} sidecar(s) and ${captionStreams.length} closed caption track(s) for ${filePath}, ${selectedSubtitles.length} selected`);
+
         // Ensure output directory exists
         if (!existsSync(PLUGIN_OUTPUT_PATH)) {
             mkdirSync(PLUGIN_OUTPUT_PATH, { recursive: true });
         }
-
-        // Get video title for output filename
-        const title = existingMeta?.originalTitle || existingMeta?.title || existingMeta?.fileName || 'video';
-        const safeTitle = sanitizeFilename(title);
-        const year = existingMeta?.movieYear;
-        const yearStr = year ? ` (${year})` : '';
+        if (!existsSync(RAW_SUBTITLE_PATH)) {
+            mkdirSync(RAW_SUBTITLE_PATH, { recursive: true });
+        }
 
         const extractedCids: string[] = [];
         const extractedLanguages: string[] = [];
+        const trackDescriptors: SubtitleTrackDescriptor[] = [];
 
-        // Extract each subtitle
-        for (const sub of textSubtitles) {
-            const langCode = sub.language || 'und';
-            const langSuffix = sub.language ? `.${sub.language}` : `.${sub.index}`;
-            const ext = outputFormat;
-
-            // Build output filename: Title (Year)[videoCID]_subtitle.lang.srt
-            const outputFilename = `${safeTitle}${yearStr}[${cid}]_subtitle${langSuffix}.${ext}`;
-            const outputPath = path.join(PLUGIN_OUTPUT_PATH, outputFilename);
-
-            // Check if already extracted
-            if (existsSync(outputPath) && !forceRecompute) {
-                console.log(`[subtitle-extractor] Subtitle already exists: ${outputFilename}`);
-                try {
-                    const subtitleCid = computeMidHash256Sync(outputPath);
-                    extractedCids.push(subtitleCid);
-                    if (sub.language && !extractedLanguages.includes(sub.language)) {
-                        extractedLanguages.push(sub.language);
+        // Remember a published file in the video's track list
+        const describeSubtitle = (sub: SubtitleStream, format: OutputFormat, outputPath: string, subtitleCid: string, details: FileDetails = {}) => {
+            extractedCids.push(subtitleCid);
+            if (sub.language && !extractedLanguages.includes(sub.language)) {
+                extractedLanguages.push(sub.language);
+            }
+            trackDescriptors.push({
+                cid: subtitleCid,
+                fileName: path.relative(PLUGIN_OUTPUT_PATH, outputPath),
+                format,
+                codec: sub.codec,
+                source: sub.externalPath ? 'external' : sub.cc ? 'closed-captions' : 'embedded',
+                externalFile: sub.externalPath ? path.relative(path.dirname(filePath), sub.externalPath) : undefined,
+                subtitleIndex: sub.index,
+                streamIndex: sub.streamIndex,
+                language: sub.language,
+                title: sub.title,
+                forced: sub.forced === true,
+                default: sub.default === true,
+                sdh: sub.sdh === true,
+                commentary: sub.commentary === true,
+                cc: sub.cc === true,
+                bitmap: format === 'sup' || format === 'sub',
+                ocr: sub.ocr,
+                detectedLanguage: sub.detectedLanguage,
+                languageConfidence: sub.languageConfidence,
+                sourceEncoding: sub.sourceEncoding,
+                quality: sub.quality,
+                ...details,
+            });
+        };
+
+        // Store a subtitle CID and its language on the video
+        const addToVideo = async (sub: SubtitleStream, subtitleCid: string) => {
+            await metaCore.addToSet(cid, 'extractedSubtitles', subtitleCid);
+            if (sub.language) {
+                await metaCore.addToSet(cid, 'subtitleLanguages', sub.language);
+            }
+        };
+
+        // Compute the CID of a published file and link it on the video
+        const linkSubtitle = async (sub: SubtitleStream, format: OutputFormat, outputPath: string, details: FileDetails = {}): Promise<string> => {
+            const subtitleCid = computeMidHash256Sync(outputPath);
+            console.log(`[subtitle-extractor] Subtitle CID: ${subtitleCid}`);
+            describeSubtitle(sub, format, outputPath, subtitleCid, details);
+            job?.recordTrack({ track: trackLabel(sub), status: 'written', format, fileName: path.relative(PLUGIN_OUTPUT_PATH, outputPath), quality: sub.quality?.score });
+
+            // Reverse link so the subtitle file can be traced back to its video
+            const reverseMeta: Record<string, string> = { subtitleOf: cid, subtitleFormat: format };
+            if (sub.language) {
+                reverseMeta.subtitleLanguage = sub.language;
+            }
+            if (details.variant) {
+                reverseMeta.subtitleVariant = details.variant;
+            }
+            if (sub.ocr) {
+                reverseMeta.subtitleOcrConfidence = String(sub.ocr.confidence);
+            }
+            await metaCore.mergeMetadata(subtitleCid, reverseMeta);
+            await addToVideo(sub, subtitleCid);
+            return subtitleCid;
+        };
+
+        // Link a file another video already published with the same content instead of writing a copy
+        const linkIndexedCopy = async (sub: SubtitleStream, format: SubtitleFormat, signature: SubtitleSignature, details: FileDetails): Promise<boolean> => {
+            const match = subtitleIndex.find(signature, { format, variant: details.variant, minSimilarity: duplicateSimilarity, excludeVideo: cid });
+            if (!match) return false;
+
+            // The file may have been deleted or replaced since it was indexed
+            const existingPath = path.join(PLUGIN_OUTPUT_PATH, match.entry.fileName);
+            if (!existsSync(existingPath) || computeMidHash256Sync(existingPath) !== match.entry.cid) {
+                subtitleIndex.remove(match.entry.fileName);
+                return linkIndexedCopy(sub, format, signature, details);
+            }
+
+            console.log(`[subtitle-extractor] Subtitle ${trackLabel(sub)} matches ${match.entry.fileName} of video ${match.entry.videoCid} (similarity ${match.similarity}), linking it`);
+            describeSubtitle(sub, format, existingPath, match.entry.cid, { ...details, linkedFrom: { videoCid: match.entry.videoCid, similarity: match.similarity } });
+            job?.recordTrack({ track: trackLabel(sub), status: 'linked', format, fileName: match.entry.fileName, quality: sub.quality?.score });
+            await metaCore.addToSet(match.entry.cid, 'subtitleAlsoOf', cid);
+            await addToVideo(sub, match.entry.cid);
+            return true;
+        };
+
+        // Collect the tracks that still need extracting or reading; reuse existing outputs
+        // `keepBitmap` marks image-based tracks to publish as they are; their `formats` are written by OCR
+        const pending: Array<{ sub: SubtitleStream; job: ExtractionJob; formats: SubtitleFormat[]; keepBitmap?: boolean }> = [];
+        const pendingSidecars: Array<{ sub: SubtitleStream; formats: SubtitleFormat[] }> = [];
+        const pendingCaptions: Array<{ sub: SubtitleStream; job: ExtractionJob; formats: SubtitleFormat[] }> = [];
+
+        // Tracks of this video published so far, so copies of the same subtitle are written once
+        const publishedTracks: Array<{ label: string; flags: string; fingerprint: string; signature: SubtitleSignature }> = [];
+        const duplicateTracks: Array<{ track: string; duplicateOf: string; similarity: number }> = [];
+
+        // A forced, SDH or commentary track is its own track even when its cues match a plain one
+        const trackFlags = (sub: SubtitleStream) => [sub.forced, sub.sdh, sub.commentary].map(Boolean).join(',');
+
+        // Skip a track whose cues match an earlier one with the same flags; sidecars also match on
+        // dialogue alone, as they are often retimed
+        const isCopy = (sub: SubtitleStream, doc: SubtitleDocument): boolean => {
+            // Already checked when its existing files were reused; only the missing formats remain
+            if (publishedTracks.some(p => p.label === trackLabel(sub))) return false;
+            const flags = trackFlags(sub);
+            const fingerprint = cueFingerprint(doc.cues);
+            const signature = subtitleSignature(doc.cues);
+            for (const published of publishedTracks.filter(p => p.flags === flags)) {
+                const similarity = sub.externalPath && published.fingerprint === fingerprint ? 1 : signatureSimilarity(signature, published.signature);
+                if (similarity >= duplicateSimilarity) {
+                    console.log(`[subtitle-extractor] Subtitle ${trackLabel(sub)} has the same content as subtitle ${published.label} (similarity ${similarity}), skipping`);
+                    duplicateTracks.push({ track: trackLabel(sub), duplicateOf: published.label, similarity });
+                    job?.recordTrack({ track: trackLabel(sub), status: 'duplicate' });
+                    return true;
+                }
+            }
+            publishedTracks.push({ label: trackLabel(sub), flags, fingerprint, signature });
+            return false;
+        };
+
+        // Build output path from the filename template; by default Title (Year)[videoCID]_subtitle.lang[.flags].srt
+        const basename = path.basename(filePath, path.extname(filePath));
+        // The raw variant of a cleaned track is tagged `.raw`; the cleaned one keeps the plain name
+        const buildOutputPath = (sub: SubtitleStream, langSuffix: string, format: OutputFormat, variant?: SubtitleVariant) =>
+            path.join(PLUGIN_OUTPUT_PATH, renderFilename(filenameTemplate, {
+                ...existingMeta,
+                cid,
+                basename,
+                track: langSuffix.slice(1) + (variant === 'raw' ? '.raw' : ''),
+                variant: variant === 'raw' ? 'raw' : undefined,
+                lang: sub.language ?? 'und',
+                index: trackId(sub),
+                forced: sub.forced ? 'forced' : undefined,
+                sdh: sub.sdh ? 'sdh' : undefined,
+                commentary: sub.commentary ? 'commentary' : undefined,
+                cc: sub.cc ? 'cc' : undefined,
+                ext: format,
+            }));
+
+        // Suffixes come from every text track so names stay stable when filters change;
+        // embedded tracks come first and keep the plain names on a clash
+        const trackSuffixes = buildTrackSuffixes([...textSubtitles, ...sidecarStreams, ...captionStreams]);
+        const usedSuffixes = new Set(trackSuffixes.values());
+        // OCR'd tracks are named after every real text track, so they never take a plain name from one
+        for (const sub of ocrSubtitles) {
+            trackSuffixes.set(sub, claimTrackSuffix(sub, usedSuffixes));
+        }
+        // Bitmap tracks have their own extensions, so they are named among themselves
+        const bitmapSuffixes = buildTrackSuffixes(bitmapSubtitles);
+        for (const sub of selectedSubtitles) {
+            const bitmapFormat = BITMAP_FORMAT[sub.codec];
+            let keepBitmap = false;
+            if (bitmapFormat && preserveBitmapSubtitles) {
+                const outputPath = buildOutputPath(sub, bitmapSuffixes.get(sub) ?? `.${sub.index}`, bitmapFormat);
+                const indexPath = bitmapFormat === 'sub' ? buildOutputPath(sub, bitmapSuffixes.get(sub) ?? `.${sub.index}`, 'idx') : undefined;
+                if (existsSync(outputPath) && (!indexPath || existsSync(indexPath)) && !rewrite) {
+                    const outputFilename = path.relative(PLUGIN_OUTPUT_PATH, outputPath);
+                    console.log(`[subtitle-extractor] Subtitle already exists: ${outputFilename}`);
+                    try {
+                        const indexDetails: FileDetails = indexPath
+                            ? { indexFile: path.relative(PLUGIN_OUTPUT_PATH, indexPath), indexCid: computeMidHash256Sync(indexPath) }
+                            : {};
+                        describeSubtitle(sub, bitmapFormat, outputPath, computeMidHash256Sync(outputPath), indexDetails);
+                        job?.recordTrack({ track: trackLabel(sub), status: 'reused', format: bitmapFormat, fileName: outputFilename });
+                    } catch (e) {
+                        console.error(`[subtitle-extractor] Failed to compute CID: ${e}`);
+                    }
+                } else {
+                    keepBitmap = true;
+                }
+            }
+            // Image-based tracks only get text files through OCR
+            const textFormats = !bitmapFormat || ocrSubtitles.includes(sub) ? formatsForCodec(sub.codec) : [];
+
+            const langSuffix = trackSuffixes.get(sub) ?? `.${sub.index}`;
+            const missing: SubtitleFormat[] = [];
+
+            for (const format of textFormats) {
+                const outputPath = buildOutputPath(sub, langSuffix, format);
+                const outputFilename = path.relative(PLUGIN_OUTPUT_PATH, outputPath);
+
+                // Check if already extracted
+                if (existsSync(outputPath) && !rewrite) {
+                    console.log(`[subtitle-extractor] Subtitle already exists: ${outputFilename}`);
+                    try {
+                        // A raw variant next to it means this file is the cleaned one
+                        const rawPath = buildOutputPath(sub, langSuffix, format, 'raw');
+                        const cleaned = existsSync(rawPath);
+                        describeSubtitle(sub, format, outputPath, computeMidHash256Sync(outputPath), { variant: cleaned ? 'cleaned' : undefined });
+                        job?.recordTrack({ track: trackLabel(sub), status: 'reused', format, fileName: outputFilename });
+                        if (cleaned) {
+                            describeSubtitle(sub, format, rawPath, computeMidHash256Sync(rawPath), { variant: 'raw' });
+                        }
+                        if (selectedSubtitles.length > 1 && !publishedTracks.some(p => p.label === trackLabel(sub))) {
+                            const { doc } = loadSubtitle(readFileSync(outputPath), format, 'utf-8', `Subtitle ${trackLabel(sub)}`);
+                            isCopy(sub, doc);
+                        }
+                    } catch (e) {
+                        console.error(`[subtitle-extractor] Failed to compute CID: ${e}`);
                     }
-                } catch (e) {
-                    console.error(`[subtitle-extractor] Failed to compute CID: ${e}`);
+                    continue;
                 }
+                missing.push(format);
+            }
+
+            if (bitmapFormat) {
+                if (!keepBitmap && missing.length === 0) continue;
+                // ffmpeg writes PGS straight to .sup; VobSub goes through Matroska, see bitmap-subtitles.ts
+                const rawPath = path.join(RAW_SUBTITLE_PATH, `${cid}.${sub.index}.${bitmapFormat === 'sup' ? 'sup' : 'mkv'}`);
+                pending.push({ sub, job: { subtitleIndex: sub.index, outputPath: rawPath, format: bitmapFormat, copy: true, bitmap: true }, formats: missing, keepBitmap });
+                continue;
+            }
+            if (missing.length === 0) continue;
+            if (sub.externalPath) {
+                pendingSidecars.push({ sub, formats: missing });
                 continue;
             }
+            if (sub.cc) {
+                // The caption input has a single subtitle stream, decoded to SubRip
+                const rawPath = path.join(RAW_SUBTITLE_PATH, `${cid}.${trackId(sub)}.srt`);
+                pendingCaptions.push({ sub, job: { subtitleIndex: 0, outputPath: rawPath, format: 'srt', copy: false, label: trackLabel(sub) }, formats: missing });
+                continue;
+            }
+            const rawFormat = CODEC_NATIVE_FORMAT[sub.codec] ?? 'srt';
+            const rawPath = path.join(RAW_SUBTITLE_PATH, `${cid}.${sub.index}.${rawFormat}`);
+            const copy = STREAM_COPY_CODECS.has(sub.codec);
+            const extractionJob: TextExtractionJob = { subtitleIndex: sub.index, outputPath: rawPath, format: rawFormat, copy, charset: copy ? undefined : sourceEncoding };
+            pending.push({ sub, job: extractionJob, formats: missing });
+        }
+
+        const failedTracks: string[] = [];
+        const droppedTracks: string[] = [];
+        const failTrack = (track: string, error: unknown, format?: OutputFormat) => {
+            const message = error instanceof Error ? error.message : String(error);
+            failedTracks.push(`${format ? `${track}.${format}` : track}: ${message}`);
+            job?.recordTrack({ track, status: 'failed', format, error: message });
+        };
+
+        // Coverage and end-of-video checks need the video duration from the ffmpeg metadata
+        const videoDurationMs = parseVideoDuration(streamMeta);
+
+        // Score, name, write and link every requested format of a parsed track
+        const publishTrack = async (track: SubtitleStream, { doc, encoding, invalidTimings, ocr }: LoadedSubtitle, formats: SubtitleFormat[]) => {
+            const quality = validateSubtitle(doc, { videoDurationMs, forced: track.forced, invalidTimings }, qualityThresholds);
+            if (quality.verdict === 'drop') {
+                console.log(`[subtitle-extractor] Dropping subtitle ${trackLabel(track)}, quality ${quality.score}: ${describeIssues(quality)}`);
+                droppedTracks.push(`${trackLabel(track)} (quality ${quality.score}: ${describeIssues(quality)})`);
+                job?.recordTrack({ track: trackLabel(track), status: 'dropped', quality: quality.score, error: describeIssues(quality) });
+                return;
+            }
+            if (quality.verdict === 'warn') {
+                console.warn(`[subtitle-extractor] Subtitle ${trackLabel(track)} has quality ${quality.score}, publishing with a warning: ${describeIssues(quality)}`);
+            }
 
-            // Extract subtitle
-            const extracted = await extractSubtitle(inputPath, outputPath, sub.index, sub.codec);
+            // Suffixes are keyed by the original stream object
+            let langSuffix = trackSuffixes.get(track) ?? `.${track.index}`;
+            let sub: SubtitleStream = { ...track, sourceEncoding: ocr ? undefined : encoding, quality, ocr };
 
-            if (extracted) {
-                try {
-                    // Compute CID for the extracted subtitle file
-                    const subtitleCid = computeMidHash256Sync(outputPath);
-                    console.log(`[subtitle-extractor] Subtitle CID: ${subtitleCid}`);
+            // Untagged track: guess the language from the cues, rename only when confident
+            if (!sub.language && languageDetection) {
+                const guess = detectLanguage(doc.cues.map(c => c.text.replace(/<[^>]*>/g, '')).join('\n').slice(0, 20000));
+                if (guess) {
+                    console.log(`[subtitle-extractor] Subtitle ${trackLabel(sub)} looks like ${guess.language} (confidence ${guess.confidence})`);
+                    const detected = normalizeLanguage(guess.language, languageStyle);
+                    sub = { ...sub, detectedLanguage: detected, languageConfidence: guess.confidence };
+                    if (guess.confidence >= languageDetectionThreshold) {
+                        sub.language = detected;
+                        langSuffix = claimTrackSuffix(sub, usedSuffixes);
+                    }
+                }
+            }
+
+            // Cleanup runs after language detection, which works best on the untouched text
+            let variants: Array<{ doc: SubtitleDocument; variant?: SubtitleVariant; stats?: CleanupStats }> = [{ doc }];
+            if (isCleanupEnabled(cleanup)) {
+                const cleaned = cleanupSubtitle(doc, cleanup);
+                if (cleaned.doc.cues.length === 0) {
+                    console.log(`[subtitle-extractor] Cleanup would remove every cue of subtitle ${trackLabel(sub)}, keeping it as is`);
+                } else if (hasChanges(cleaned.stats)) {
+                    console.log(`[subtitle-extractor] Cleaned subtitle ${trackLabel(sub)}: ${JSON.stringify(cleaned.stats)}`);
+                    variants = [{ doc: cleaned.doc, variant: 'cleaned', stats: cleaned.stats }, { doc, variant: 'raw' }];
+                }
+            }
+
+            // Write one file per requested format and variant, each with its own CID
+            for (const format of formats) {
+                for (const { doc: output, variant, stats } of variants) {
+                    job?.throwIfCancelled();
+                    const details: FileDetails = { variant, cleanup: stats };
+                    const signature = subtitleSignature(output.cues);
+                    if (linkDuplicates && await linkIndexedCopy(sub, format, signature, details)) continue;
 
-                    extractedCids.push(subtitleCid);
-                    if (sub.language && !extractedLanguages.includes(sub.language)) {
-                        extractedLanguages.push(sub.language);
+                    const outputPath = buildOutputPath(sub, langSuffix, format, variant);
+                    try {
+                        const text = serializeSubtitle(output, format);
+                        if (parseSubtitle(text, format).cues.length === 0) {
+                            throw new Error('Converted subtitle has no cues');
+                        }
+                        mkdirSync(path.dirname(outputPath), { recursive: true });
+                        writeFileAtomic(outputPath, encodeSubtitleText(text, outputEncoding));
+                        console.log(`[subtitle-extractor] Converted subtitle ${trackLabel(sub)} to ${format}${variant ? ` (${variant})` : ''} (${output.cues.length} cues)`);
+                        const subtitleCid = await linkSubtitle(sub, format, outputPath, details);
+                        subtitleIndex.add({
+                            cid: subtitleCid,
+                            fileName: path.relative(PLUGIN_OUTPUT_PATH, outputPath),
+                            format,
+                            variant,
+                            videoCid: cid,
+                            signature,
+                            indexedAt: new Date().toISOString(),
+                        });
+                    } catch (e) {
+                        console.error(`[subtitle-extractor] Failed to write ${format} subtitle: ${e}`);
+                        failTrack(trackLabel(sub), e, format);
                     }
+                }
+            }
+        };
+
+        // Subtitle images of a copied image-based track, for OCR
+        const readBitmaps = async (extraction: BitmapExtractionJob): Promise<SubtitleBitmap[]> => {
+            if (extraction.format === 'sup') {
+                return decodePgs(readFileSync(extraction.outputPath));
+            }
+            const { header, packets } = await probeSubtitlePackets(extraction.outputPath, job?.signal);
+            return decodeVobSub(packets, header);
+        };
+
+        // Recognize the text of an image-based track and publish it like any text track
+        const publishOcr = async (sub: SubtitleStream, extraction: BitmapExtractionJob, formats: SubtitleFormat[]) => {
+            job?.setStep(`Running OCR on subtitle ${trackLabel(sub)}`);
+            const bitmaps = await readBitmaps(extraction);
+            if (bitmaps.length === 0) {
+                throw new Error('No subtitle images in extracted track');
+            }
+
+            const budget = (manifest.timeout ?? 300000) - (Date.now() - startTime) - EXTRACTION_TIMEOUT_MARGIN_MS;
+            const language = normalizeLanguage(sub.language, 'iso639-2');
+            const cues = (await ocrProvider.recognize(bitmaps, { language, timeoutMs: budget, signal: job?.signal }))
+                .filter(cue => cue.text.trim() !== '');
+            const valid = cues.filter(cue => cue.end > cue.start);
+            if (valid.length === 0) {
+                throw new Error(`${ocrProvider.name} recognized no text`);
+            }
+
+            const ocr = summarizeOcr(ocrProvider.name, valid);
+            console.log(`[subtitle-extractor] OCR of subtitle ${trackLabel(sub)}: text in ${valid.length} of ${bitmaps.length} image(s), confidence ${ocr.confidence}`);
+            const doc: SubtitleDocument = { format: 'srt', cues: valid.map(({ start, end, text }) => ({ start, end, text })) };
+            if (isCopy(sub, doc)) return;
+            await publishTrack(sub, { doc, encoding: 'utf-8', invalidTimings: cues.length - valid.length, ocr }, formats);
+        };
+
+        // Write a copied image-based track to /output; there are no cues to check, clean or compare
+        const publishBitmap = async (sub: SubtitleStream, extraction: BitmapExtractionJob) => {
+            const outputPath = buildOutputPath(sub, bitmapSuffixes.get(sub) ?? `.${sub.index}`, extraction.format);
+            mkdirSync(path.dirname(outputPath), { recursive: true });
 
-                    // Store subtitle CID as metadata on the video
-                    await metaCore.addToSet(cid, 'extractedSubtitles', subtitleCid);
+            if (extraction.format === 'sup') {
+                writeFileAtomic(outputPath, readFileSync(extraction.outputPath));
+                console.log(`[subtitle-extractor] Copied subtitle ${trackLabel(sub)} to sup`);
+                await linkSubtitle(sub, 'sup', outputPath);
+                return;
+            }
+
+            const { header, packets } = await probeSubtitlePackets(extraction.outputPath, job?.signal);
+            if (packets.length === 0) {
+                throw new Error('No subtitle packets in extracted track');
+            }
+            const vobsub = buildVobSub(packets, header, normalizeLanguage(sub.language, 'iso639-1') ?? '');
+            const indexPath = buildOutputPath(sub, bitmapSuffixes.get(sub) ?? `.${sub.index}`, 'idx');
+            // The .sub is written first so an existing .idx always has its .sub next to it
+            writeFileAtomic(outputPath, vobsub.sub);
+            writeFileAtomic(indexPath, Buffer.from(vobsub.idx, 'latin1'));
+            console.log(`[subtitle-extractor] Remuxed subtitle ${trackLabel(sub)} to idx/sub (${packets.length} subpictures)`);
 
-                    // Store language if available
-                    if (sub.language) {
-                        await metaCore.addToSet(cid, 'subtitleLanguages', sub.language);
+            const indexCid = computeMidHash256Sync(indexPath);
+            await linkSubtitle(sub, 'sub', outputPath, { indexFile: path.relative(PLUGIN_OUTPUT_PATH, indexPath), indexCid });
+            await metaCore.mergeMetadata(indexCid, { subtitleOf: cid, subtitleFormat: 'idx' });
+        };
+
+        // Run one ffmpeg pass over an input, then read and publish each extracted track.
+        // `maxBudgetMs` caps the pass below the remaining job time; with `skipOnTimeout`, tracks
+        // that run out of it are skipped instead of failed, so the run still counts as complete.
+        const extractAndPublish = async (
+            input: (charset?: string) => string[],
+            items: typeof pending,
+            { maxBudgetMs = Infinity, skipOnTimeout = false }: { maxBudgetMs?: number; skipOnTimeout?: boolean } = {}
+        ) => {
+            job?.throwIfCancelled();
+            job?.setStep(`Extracting subtitle(s) ${items.map(p => trackLabel(p.sub)).join(', ')}`);
+            const remaining = (manifest.timeout ?? 300000) - (Date.now() - startTime) - EXTRACTION_TIMEOUT_MARGIN_MS;
+            const budget = Math.min(remaining, maxBudgetMs);
+            const results = await extractSubtitles(input, items.map(p => p.job), budget, job?.signal);
+
+            try {
+                // A cancelled pass fails every track; that is the cancellation, not a track failure
+                job?.throwIfCancelled();
+                for (let i = 0; i < results.length; i++) {
+                    const result = results[i];
+                    const { sub, formats } = items[i];
+
+                    if (!result.success && result.timedOut && skipOnTimeout) {
+                        console.warn(`[subtitle-extractor] Skipped subtitle ${trackLabel(sub)}: ${result.error}`);
+                        job?.recordTrack({ track: trackLabel(sub), status: 'dropped', error: result.error });
+                        continue;
+                    }
+                    if (!result.success) {
+                        failTrack(trackLabel(sub), result.error);
+                        continue;
+                    }
+
+                    try {
+                        job?.throwIfCancelled();
+                        job?.setStep(`Converting subtitle ${trackLabel(sub)}`);
+                        if (result.job.bitmap) {
+                            if (items[i].keepBitmap) await publishBitmap(sub, result.job);
+                            if (formats.length > 0) await publishOcr(sub, result.job, formats);
+                            continue;
+                        }
+                        const loaded = readExtractedSubtitle(result.job);
+                        if (isCopy(sub, loaded.doc)) continue;
+                        await publishTrack(sub, loaded, formats);
+                    } catch (e) {
+                        if (job?.signal.aborted) throw e;
+                        console.error(`[subtitle-extractor] Failed to process extracted subtitle: ${e}`);
+                        failTrack(trackLabel(sub), e);
                     }
-                } catch (e) {
-                    console.error(`[subtitle-extractor] Failed to process extracted subtitle: ${e}`);
                 }
+            } finally {
+                // Raw files are never needed again, including after a cancellation midway
+                for (const { job: extractionJob } of items) {
+                    try { unlinkSync(extractionJob.outputPath); } catch {}
+                }
+            }
+        };
+
+        // ffmpeg decodes transcoded tracks itself, so their encoding is detected on the raw packets first
+        const transcoded = pending.filter(p => !p.job.bitmap && !p.job.copy);
+        if (!sourceEncoding && transcoded.length > 0) {
+            job?.throwIfCancelled();
+            job?.setStep(`Detecting the encoding of subtitle(s) ${transcoded.map(p => trackLabel(p.sub)).join(', ')}`);
+            const guesses = await detectPacketEncodings(inputPath, transcoded.map(p => p.sub), job?.signal);
+            job?.throwIfCancelled();
+            for (const { sub, job: extraction } of transcoded) {
+                const guess = guesses.get(sub);
+                if (!guess || extraction.bitmap) continue;
+                extraction.charset = guess.encoding;
+                if (guess.encoding !== 'utf-8') {
+                    console.log(`[subtitle-extractor] Subtitle ${trackLabel(sub)} packets look like ${guess.encoding} (confidence ${guess.confidence})`);
+                }
+            }
+        }
+
+        // Extract all remaining tracks in one pass over the input
+        if (pending.length > 0) {
+            await extractAndPublish((charset) => fileInput(inputPath, charset ?? sourceEncoding), pending);
+        }
+
+        // Sidecars go through the same pipeline, unless an embedded track already has their content
+        for (const { sub, formats } of pendingSidecars) {
+            const fileName = trackLabel(sub);
+            job?.throwIfCancelled();
+            job?.setStep(`Reading sidecar ${fileName}`);
+            try {
+                const format = CODEC_NATIVE_FORMAT[sub.codec] ?? 'srt';
+                const loaded = loadSubtitle(await readSidecar(sub.externalPath!, webdavClient), format, sourceEncoding, `Sidecar ${fileName}`);
+                if (isCopy(sub, loaded.doc)) continue;
+                await publishTrack(sub, loaded, formats);
+            } catch (e) {
+                if (job?.signal.aborted) throw e;
+                console.error(`[subtitle-extractor] Failed to process sidecar ${fileName}: ${e}`);
+                failTrack(fileName, e);
             }
         }
 
+        // Captions need the whole video decoded, so they come last, on their own budget,
+        // and cannot hold up the other tracks
+        if (pendingCaptions.length > 0) {
+            await extractAndPublish(() => closedCaptionInput(inputPath), pendingCaptions, { maxBudgetMs: closedCaptionTimeoutMs, skipOnTimeout: true });
+        }
+
+        // Nothing is recorded for a job that was cancelled; its callback has already been sent
+        job?.throwIfCancelled();
+
+        // Files of earlier runs that this one did not produce are removed, unless tracks failed
+        // or the OCR engine is missing
+        const complete = failedTracks.length === 0 && !ocrUnavailable;
+        if (trackDescriptors.length > 0) {
+            await metaCore.setProperty(cid, 'subtitleTracks', JSON.stringify(trackDescriptors));
+        } else if (previousManifest && complete) {
+            await metaCore.deleteProperty(cid, 'subtitleTracks');
+        }
+        if (duplicateTracks.length > 0) {
+            await metaCore.setProperty(cid, 'subtitleDuplicates', JSON.stringify(duplicateTracks));
+        } else if (previousManifest && complete) {
+            await metaCore.deleteProperty(cid, 'subtitleDuplicates');
+        }
+
+        const producedFiles: ManifestFile[] = trackDescriptors.flatMap(track => [
+            { fileName: track.fileName, cid: track.cid, language: track.language, linked: track.linkedFrom ? true : undefined },
+            ...(track.indexFile && track.indexCid ? [{ fileName: track.indexFile, cid: track.indexCid, index: true }] : []),
+        ]);
+        await reconcileOutputs(metaCore, cid, previousManifest, producedFiles, settings, complete, job);
+
         if (extractedCids.length > 0) {
             console.log(`[subtitle-extractor] Extracted ${extractedCids.length} subtitle(s) from ${filePath}`);
         } else {
             console.log(`[subtitle-extractor] No subtitles could be extracted from ${filePath}`);
         }
+        if (failedTracks.length > 0) {
+            console.log(`[subtitle-extractor] ${failedTracks.length} subtitle(s) failed: ${failedTracks.join('; ')}`);
+        }
 
+        const problems = [
+            ...(failedTracks.length > 0 ? [`Failed subtitle(s): ${failedTracks.join('; ')}`] : []),
+            ...(droppedTracks.length > 0 ? [`Dropped low-quality subtitle(s): ${droppedTracks.join('; ')}`] : []),
+        ];
         await sendCallback({
             taskId: request.taskId,
             status: 'completed',
             duration: Date.now() - startTime,
+            reason: problems.length > 0 ? problems.join('. ') : undefined,
         });
     } catch (error) {
         console.error(`[subtitle-extractor] Error:`, error);
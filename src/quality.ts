@@ -0,0 +1,203 @@
+/**
+ * Subtitle quality validation
+ *
+ * Scores a parsed track from 0 to 100 before it is published. Each check that
+ * finds a problem adds an issue and takes points off, scaled by how much of the
+ * track is affected. The score is compared against the configured thresholds to
+ * publish the track, publish it with a warning, or drop it.
+ */
+
+import type { SubtitleDocument } from './subtitles.js';
+
+export type QualityIssueCode =
+    | 'few_cues'
+    | 'invalid_timing'
+    | 'overlapping_cues'
+    | 'beyond_video_end'
+    | 'low_coverage'
+    | 'long_cues'
+    | 'garbage_text';
+
+export interface QualityIssue {
+    code: QualityIssueCode;
+    message: string;
+    // Points taken off the score
+    penalty: number;
+}
+
+export type QualityVerdict = 'publish' | 'warn' | 'drop';
+
+export interface QualityReport {
+    score: number;
+    verdict: QualityVerdict;
+    issues: QualityIssue[];
+}
+
+export interface QualityThresholds {
+    // Tracks scoring below this are published with a warning
+    warnBelow: number;
+    // Tracks scoring below this are not published at all
+    dropBelow: number;
+}
+
+export interface QualityContext {
+    // Video duration in milliseconds, when the ffmpeg metadata has one
+    videoDurationMs?: number;
+    // Forced tracks only cover foreign dialogue or signs, so sparse cues are expected
+    forced?: boolean;
+    // Cues dropped while loading because they ended before they started
+    invalidTimings?: number;
+}
+
+const MIN_CUES = 5;
+const FEW_CUES = 20;
+// Cues may run slightly past the end of the video stream
+const END_GRACE_MS = 5000;
+// A full-length track usually spans most of the video
+const MIN_COVERAGE = 0.5;
+const LONG_CUE_MS = 30000;
+
+// Replacement characters, control characters, private use and UTF-8 read as Latin-1 ("Ã©")
+const GARBAGE_CHARS = /[\uFFFD\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F\uE000-\uF8FF]|\u00C3[\u0080-\u00BF]|\u00E2\u20AC/g;
+const LETTERS = /\p{L}/gu;
+
+/**
+ * Read the video duration from ffmpeg plugin metadata
+ * Uses `duration` (seconds or HH:MM:SS.ms), else the longest stream duration.
+ */
+export function parseVideoDuration(existingMeta: Record<string, string>): number | undefined {
+    const seconds = parseSeconds(existingMeta['duration']);
+    if (seconds !== undefined) return Math.round(seconds * 1000);
+
+    try {
+        const streams = JSON.parse(existingMeta['streams'] ?? '[]') as Array<{ duration?: string | number }>;
+        const longest = Math.max(0, ...streams.map(s => parseSeconds(s.duration) ?? 0));
+        return longest > 0 ? Math.round(longest * 1000) : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function parseSeconds(value: string | number | undefined): number | undefined {
+    if (value === undefined || value === '') return undefined;
+    const text = String(value).trim();
+    const clock = text.match(/^(\d+):(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/);
+    const seconds = clock
+        ? parseInt(clock[1], 10) * 3600 + parseInt(clock[2], 10) * 60 + parseFloat(clock[3])
+        : Number(text);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds : undefined;
+}
+
+/**
+ * Penalty for a problem affecting `ratio` of the track, reaching `max` at `saturation`
+ */
+function scaled(max: number, ratio: number, saturation: number): number {
+    return Math.max(1, Math.round(max * Math.min(1, ratio / saturation)));
+}
+
+function percent(ratio: number): string {
+    return `${Math.round(ratio * 100)}%`;
+}
+
+/**
+ * Check a track and score it
+ */
+export function validateSubtitle(doc: SubtitleDocument, context: QualityContext, thresholds: QualityThresholds): QualityReport {
+    const issues: QualityIssue[] = [];
+    const cues = [...doc.cues].sort((a, b) => a.start - b.start);
+    const count = cues.length;
+
+    if (!context.forced && count < FEW_CUES) {
+        issues.push({
+            code: 'few_cues',
+            message: `Only ${count} cue(s)`,
+            penalty: count < MIN_CUES ? 40 : 15,
+        });
+    }
+
+    const invalid = context.invalidTimings ?? 0;
+    if (invalid > 0) {
+        const ratio = invalid / (count + invalid);
+        issues.push({
+            code: 'invalid_timing',
+            message: `${invalid} cue(s) with zero or negative duration`,
+            penalty: scaled(30, ratio, 0.2),
+        });
+    }
+
+    // Occasional overlaps are normal (two speakers, signs); many point at broken timing
+    let overlaps = 0;
+    let lastEnd = -Infinity;
+    for (const cue of cues) {
+        if (cue.start < lastEnd) overlaps++;
+        lastEnd = Math.max(lastEnd, cue.end);
+    }
+    if (count > 0 && overlaps / count > 0.05) {
+        issues.push({
+            code: 'overlapping_cues',
+            message: `${overlaps} cue(s) overlap the previous one`,
+            penalty: scaled(20, overlaps / count, 0.5),
+        });
+    }
+
+    const duration = context.videoDurationMs;
+    if (duration && count > 0) {
+        const beyond = cues.filter(cue => cue.start > duration + END_GRACE_MS).length;
+        if (beyond > 0) {
+            issues.push({
+                code: 'beyond_video_end',
+                message: `${beyond} cue(s) start after the end of the video`,
+                penalty: scaled(40, beyond / count, 0.2),
+            });
+        }
+
+        const coverage = (Math.min(lastEnd, duration) - Math.min(cues[0].start, duration)) / duration;
+        if (!context.forced && coverage < MIN_COVERAGE) {
+            issues.push({
+                code: 'low_coverage',
+                message: `Cues span ${percent(Math.max(coverage, 0))} of the video`,
+                penalty: scaled(25, MIN_COVERAGE - Math.max(coverage, 0), MIN_COVERAGE),
+            });
+        }
+    }
+
+    const long = cues.filter(cue => cue.end - cue.start > LONG_CUE_MS).length;
+    if (count > 0 && long > 0) {
+        issues.push({
+            code: 'long_cues',
+            message: `${long} cue(s) last longer than ${LONG_CUE_MS / 1000}s`,
+            penalty: scaled(15, long / count, 0.1),
+        });
+    }
+
+    const text = cues.map(cue => cue.text.replace(/<[^>]*>|\{\\[^}]*\}/g, '')).join('\n');
+    const visible = text.replace(/\s/g, '').length;
+    if (visible > 0) {
+        const garbage = (text.match(GARBAGE_CHARS) ?? []).length / visible;
+        const letters = (text.match(LETTERS) ?? []).length / visible;
+        if (garbage > 0.01) {
+            issues.push({
+                code: 'garbage_text',
+                message: `${percent(garbage)} of the text is undecodable or mis-encoded`,
+                penalty: scaled(50, garbage, 0.1),
+            });
+        } else if (letters < 0.5) {
+            issues.push({
+                code: 'garbage_text',
+                message: `Only ${percent(letters)} of the text are letters`,
+                penalty: scaled(40, 0.5 - letters, 0.3),
+            });
+        }
+    }
+
+    const score = Math.max(0, 100 - issues.reduce((sum, issue) => sum + issue.penalty, 0));
+    const verdict: QualityVerdict = score < thresholds.dropBelow ? 'drop' : score < thresholds.warnBelow ? 'warn' : 'publish';
+    return { score, verdict, issues };
+}
+
+/**
+ * One-line summary of the issues for logs and failure reasons
+ */
+export function describeIssues(report: QualityReport): string {
+    return report.issues.map(issue => issue.message).join(', ') || 'no issues';
+}
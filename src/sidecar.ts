@@ -0,0 +1,148 @@
+/**
+ * External (sidecar) subtitle discovery
+ *
+ * Looks for subtitle files sitting next to a video, e.g. `Movie.en.srt` beside `Movie.mkv`,
+ * or in a `Subs/` folder next to it (`Subs/English.srt`, `Subs/Movie/2_English.srt`).
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import * as path from 'path';
+import type { WebDAVClient } from './webdav-client.js';
+import type { SubtitleFormat } from './subtitles.js';
+import { normalizeLanguage, isKnownLanguage, type LanguageStyle } from './language.js';
+
+export const SIDECAR_EXTENSIONS = new Set(['.srt', '.ass', '.ssa', '.vtt', '.sub', '.idx', '.sup']);
+
+// Sidecar extensions that can be parsed as text, and the codec name they stand for
+const TEXT_SIDECAR_CODECS: Record<string, { codec: string; format: SubtitleFormat }> = {
+    '.srt': { codec: 'subrip', format: 'srt' },
+    '.ass': { codec: 'ass', format: 'ass' },
+    '.ssa': { codec: 'ssa', format: 'ass' },
+    '.vtt': { codec: 'webvtt', format: 'vtt' },
+};
+
+const SIDECAR_FLAGS = new Set(['forced', 'sdh', 'cc', 'hi', 'commentary', 'default']);
+
+const SUBS_FOLDER_NAMES = new Set(['subs', 'subtitles', 'sub']);
+
+const VIDEO_EXTENSIONS = new Set(['.mkv', '.mp4', '.m4v', '.avi', '.mov', '.wmv', '.ts', '.m2ts', '.webm', '.mpg', '.mpeg', '.flv']);
+
+export interface SidecarSubtitle {
+    path: string;
+    fileName: string;
+    codec: string;
+    format: SubtitleFormat;
+    language?: string;
+    title?: string;
+    forced: boolean;
+    sdh: boolean;
+    commentary: boolean;
+}
+
+async function listDir(dir: string, webdavClient: WebDAVClient | null): Promise<string[]> {
+    try {
+        if (webdavClient) {
+            return await webdavClient.readdir(dir);
+        }
+        if (!existsSync(dir)) return [];
+        return readdirSync(dir);
+    } catch (e) {
+        console.warn(`[subtitle-extractor] Could not list ${dir}: ${e}`);
+        return [];
+    }
+}
+
+function isSubtitleFile(name: string): boolean {
+    return SIDECAR_EXTENSIONS.has(path.extname(name).toLowerCase());
+}
+
+function matchesVideo(name: string, videoBase: string): boolean {
+    const base = name.slice(0, -path.extname(name).length).toLowerCase();
+    return base === videoBase || base.startsWith(videoBase + '.');
+}
+
+/**
+ * List sidecar subtitle files for a video, as absolute paths
+ *
+ * Files beside the video must start with its basename. Inside a `Subs/` folder,
+ * a subfolder named after the video is used when present; otherwise loose files
+ * are taken when they match the basename, or all of them when the video is the
+ * only one in its directory. Uses WebDAV when a client is given, the filesystem
+ * otherwise. Directories that cannot be read are treated as empty.
+ */
+export async function listSidecarSubtitles(filePath: string, webdavClient: WebDAVClient | null): Promise<string[]> {
+    const dir = path.dirname(filePath);
+    const videoBase = path.basename(filePath, path.extname(filePath)).toLowerCase();
+
+    const entries = await listDir(dir, webdavClient);
+    const found = entries
+        .filter(name => isSubtitleFile(name) && matchesVideo(name, videoBase))
+        .map(name => path.join(dir, name));
+
+    const subsFolder = entries.find(name => SUBS_FOLDER_NAMES.has(name.replace(/\/$/, '').toLowerCase()));
+    if (subsFolder) {
+        const subsDir = path.join(dir, subsFolder.replace(/\/$/, ''));
+        const subsEntries = await listDir(subsDir, webdavClient);
+
+        const videoFolder = subsEntries.find(name => name.replace(/\/$/, '').toLowerCase() === videoBase);
+        if (videoFolder) {
+            const videoDir = path.join(subsDir, videoFolder.replace(/\/$/, ''));
+            found.push(...(await listDir(videoDir, webdavClient)).filter(isSubtitleFile).map(name => path.join(videoDir, name)));
+        } else {
+            const onlyVideo = entries.filter(name => VIDEO_EXTENSIONS.has(path.extname(name).toLowerCase())).length <= 1;
+            found.push(...subsEntries
+                .filter(name => isSubtitleFile(name) && (onlyVideo || matchesVideo(name, videoBase)))
+                .map(name => path.join(subsDir, name)));
+        }
+    }
+
+    return found.sort();
+}
+
+/**
+ * Read language and flags from a sidecar filename
+ *
+ * `Movie.fr.forced.ass` -> French, forced; `Subs/2_English.srt` -> English.
+ * Returns null for bitmap sidecars (.sub/.idx/.sup), which are not parsed as text.
+ */
+export function describeSidecar(sidecarPath: string, videoPath: string, style: LanguageStyle): SidecarSubtitle | null {
+    const fileName = path.basename(sidecarPath);
+    const ext = path.extname(fileName).toLowerCase();
+    const textCodec = TEXT_SIDECAR_CODECS[ext];
+    if (!textCodec) return null;
+
+    const videoBase = path.basename(videoPath, path.extname(videoPath)).toLowerCase();
+    let stem = fileName.slice(0, -ext.length);
+    if (stem.toLowerCase().startsWith(videoBase)) {
+        stem = stem.slice(videoBase.length);
+    }
+    // "2_English" style names from release Subs/ folders
+    stem = stem.replace(/^\d+_/, '');
+
+    const tokens = stem.split(/[.\s_-]+/).filter(Boolean);
+    const lowered = tokens.map(t => t.toLowerCase());
+    // Flag words win over look-alike language codes (`hi` is SDH here, not Hindi)
+    const languageToken = tokens.find(t => !SIDECAR_FLAGS.has(t.toLowerCase()) && isKnownLanguage(t));
+
+    return {
+        path: sidecarPath,
+        fileName,
+        codec: textCodec.codec,
+        format: textCodec.format,
+        language: normalizeLanguage(languageToken, style),
+        title: tokens.filter(t => t !== languageToken && !SIDECAR_FLAGS.has(t.toLowerCase())).join(' ') || undefined,
+        forced: lowered.includes('forced'),
+        sdh: lowered.some(t => t === 'sdh' || t === 'cc' || t === 'hi'),
+        commentary: lowered.includes('commentary'),
+    };
+}
+
+/**
+ * Read a sidecar file's bytes
+ */
+export async function readSidecar(sidecarPath: string, webdavClient: WebDAVClient | null): Promise<Buffer> {
+    if (webdavClient) {
+        return webdavClient.readFile(sidecarPath);
+    }
+    return readFileSync(sidecarPath);
+}
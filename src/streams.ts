@@ -0,0 +1,263 @@
+/**
+ * Subtitle stream discovery
+ *
+ * Reads the subtitle stream list written by the ffmpeg plugin (or by the plugin's
+ * own ffprobe run, in the same format) and derives per-track flags (forced, SDH,
+ * commentary) and output filename suffixes. Closed captions carried inside the
+ * video stream are listed as tracks too.
+ */
+
+import type { OcrSummary } from './ocr.js';
+import type { QualityReport } from './quality.js';
+
+/**
+ * A subtitle stream of the video
+ * `index` is the relative subtitle index used in `-map 0:s:N`, `streamIndex` the absolute one
+ */
+export interface SubtitleStream {
+    index: number;
+    streamIndex?: number;
+    codec: string;
+    language?: string;
+    title?: string;
+    forced?: boolean;
+    default?: boolean;
+    sdh?: boolean;
+    commentary?: boolean;
+    // Set when the language was guessed from the cue text
+    detectedLanguage?: string;
+    languageConfidence?: number;
+    // Encoding of the extracted payload before it was converted to UTF-8
+    sourceEncoding?: string;
+    // Set for subtitle files found next to the video; `index` then counts sidecars
+    externalPath?: string;
+    // Set for CEA-608/708 captions decoded from the video stream; `index` then counts caption tracks
+    cc?: boolean;
+    // Result of the quality checks on the parsed cues
+    quality?: QualityReport;
+    // Set when the text was recognized from an image-based track
+    ocr?: OcrSummary;
+}
+
+// Track titles that flag a stream when the container disposition does not
+const FORCED_TITLE_PATTERN = /\bforced\b/i;
+const SDH_TITLE_PATTERN = /\bSDH\b|\bCC\b|hearing[\s-]?impaired|\bdeaf\b/i;
+const COMMENTARY_TITLE_PATTERN = /\bcommentary\b|\bcommentaire\b|\bkommentar\b/i;
+
+/**
+ * Combine disposition flags with hints from the track title
+ */
+function detectTrackFlags(stream: SubtitleStream): SubtitleStream {
+    const title = stream.title || '';
+    return {
+        ...stream,
+        forced: stream.forced === true || FORCED_TITLE_PATTERN.test(title),
+        sdh: stream.sdh === true || SDH_TITLE_PATTERN.test(title),
+        commentary: stream.commentary === true || COMMENTARY_TITLE_PATTERN.test(title),
+    };
+}
+
+/**
+ * One entry of the ffprobe `-show_streams` JSON, as stored by the ffmpeg plugin
+ */
+export interface ProbedStream {
+    codec_type?: string;
+    codec_name?: string;
+    index?: number;
+    duration?: string | number;
+    closed_captions?: number;
+    tags?: { language?: string; title?: string };
+    disposition?: { default?: number; forced?: number; hearing_impaired?: number; comment?: number };
+}
+
+export type StreamMetadataStatus = 'present' | 'missing' | 'malformed';
+
+/**
+ * Whether the ffmpeg plugin left a usable stream list
+ * Legacy `subtitle_N_codec` fields count as present.
+ */
+export function streamMetadataStatus(existingMeta: Record<string, string>): StreamMetadataStatus {
+    const streamsJson = existingMeta['streams'];
+    if (streamsJson) {
+        try {
+            return Array.isArray(JSON.parse(streamsJson)) ? 'present' : 'malformed';
+        } catch {
+            return 'malformed';
+        }
+    }
+    return Object.keys(existingMeta).some(key => /^subtitle_\d+_codec$/.test(key)) ? 'present' : 'missing';
+}
+
+/**
+ * Parse subtitle streams from ffmpeg plugin metadata
+ */
+export function parseSubtitleStreams(existingMeta: Record<string, string>): SubtitleStream[] {
+    const streams: SubtitleStream[] = [];
+
+    // ffmpeg plugin stores streams as JSON in 'streams' field
+    // or as individual fields like 'subtitle_0_codec', 'subtitle_0_language', etc.
+    const streamsJson = existingMeta['streams'];
+    if (streamsJson) {
+        try {
+            const allStreams = JSON.parse(streamsJson) as ProbedStream[];
+            let subtitleIndex = 0;
+            for (const stream of allStreams) {
+                if (stream.codec_type === 'subtitle') {
+                    streams.push({
+                        index: subtitleIndex,
+                        streamIndex: stream.index,
+                        codec: stream.codec_name || 'unknown',
+                        language: stream.tags?.language,
+                        title: stream.tags?.title,
+                        forced: stream.disposition?.forced === 1,
+                        default: stream.disposition?.default === 1,
+                        sdh: stream.disposition?.hearing_impaired === 1,
+                        commentary: stream.disposition?.comment === 1,
+                    });
+                    subtitleIndex++;
+                }
+            }
+        } catch {
+            // Fall through to individual field parsing
+        }
+    }
+
+    // Fallback: parse individual fields, as many as there are
+    if (streams.length === 0) {
+        const indices = Object.keys(existingMeta)
+            .map(key => key.match(/^subtitle_(\d+)_codec$/))
+            .flatMap(match => match ? [parseInt(match[1], 10)] : [])
+            .sort((a, b) => a - b);
+        for (const i of indices) {
+            const codec = existingMeta[`subtitle_${i}_codec`];
+            if (codec) {
+                streams.push({
+                    index: i,
+                    codec,
+                    language: existingMeta[`subtitle_${i}_language`],
+                    title: existingMeta[`subtitle_${i}_title`],
+                });
+            }
+        }
+    }
+
+    return streams.map(detectTrackFlags);
+}
+
+/**
+ * Differences between the upstream subtitle streams and the ones ffprobe found, one line each
+ *
+ * Legacy per-field metadata has no stream indices or dispositions, so flags are only
+ * compared for streams read from the JSON stream list.
+ */
+export function compareSubtitleStreams(upstream: SubtitleStream[], probed: SubtitleStream[]): string[] {
+    const differences: string[] = [];
+    if (upstream.length !== probed.length) {
+        differences.push(`metadata lists ${upstream.length} subtitle stream(s), ffprobe found ${probed.length}`);
+    }
+
+    for (const stream of upstream) {
+        const actual = probed.find(p => p.index === stream.index);
+        if (!actual) {
+            differences.push(`subtitle ${stream.index} (${stream.codec}) does not exist`);
+            continue;
+        }
+        const fields: Array<keyof SubtitleStream> = ['codec', 'language', 'title'];
+        if (stream.streamIndex !== undefined) {
+            fields.push('streamIndex', 'forced', 'default', 'sdh', 'commentary');
+        }
+        for (const field of fields) {
+            if ((stream[field] ?? '') !== (actual[field] ?? '')) {
+                differences.push(`subtitle ${stream.index} ${field} is ${stream[field] ?? 'unset'}, ffprobe says ${actual[field] ?? 'unset'}`);
+            }
+        }
+    }
+    return differences;
+}
+
+/**
+ * Whether the video stream carries CEA-608/708 closed captions
+ * Undefined when the metadata does not say, e.g. when written by an older ffprobe.
+ */
+export function hasClosedCaptions(existingMeta: Record<string, string>): { present: boolean; streamIndex?: number } | undefined {
+    try {
+        const allStreams = JSON.parse(existingMeta['streams'] ?? '[]') as ProbedStream[];
+        const videos = allStreams.filter(s => s.codec_type === 'video');
+        const captioned = videos.find(s => s.closed_captions === 1);
+        if (captioned) return { present: true, streamIndex: captioned.index };
+        if (videos.some(s => s.closed_captions !== undefined)) return { present: false };
+    } catch {
+        // Unreadable stream list, treated as unknown
+    }
+    return undefined;
+}
+
+/**
+ * Build a track for closed captions decoded from the video stream
+ */
+export function closedCaptionStream(streamIndex?: number): SubtitleStream {
+    return {
+        index: 0,
+        streamIndex,
+        codec: 'eia_608',
+        title: 'Closed Captions',
+        forced: false,
+        sdh: false,
+        commentary: false,
+        cc: true,
+    };
+}
+
+/**
+ * Short id of a track used when it has no language: the subtitle index,
+ * `ext{n}` for sidecars and `cc{n}` for closed captions
+ */
+export function trackId(stream: SubtitleStream): string {
+    if (stream.externalPath) return `ext${stream.index}`;
+    if (stream.cc) return `cc${stream.index}`;
+    return String(stream.index);
+}
+
+/**
+ * Build the filename suffix for each track: `.{lang}[.forced][.sdh][.commentary]`
+ *
+ * Tracks without a language use their subtitle index. When two tracks would get
+ * the same suffix, the first one keeps it and later ones get their track id
+ * appended, so every track ends up in its own file. Embedded tracks are named
+ * first, in stream order, then sidecars and closed captions: their numbers
+ * overlap the subtitle indexes, and adding a sidecar must not rename an
+ * embedded track's file.
+ */
+export function buildTrackSuffixes(streams: SubtitleStream[]): Map<SubtitleStream, string> {
+    const suffixes = new Map<SubtitleStream, string>();
+    const used = new Set<string>();
+
+    const group = (stream: SubtitleStream) => stream.externalPath ? 1 : stream.cc ? 2 : 0;
+    for (const stream of [...streams].sort((a, b) => group(a) - group(b) || a.index - b.index)) {
+        suffixes.set(stream, claimTrackSuffix(stream, used));
+    }
+
+    return suffixes;
+}
+
+/**
+ * Build the suffix for one track and reserve it in `used`
+ * Also used to rename a track after its language was detected.
+ */
+export function claimTrackSuffix(stream: SubtitleStream, used: Set<string>): string {
+    // Sidecars and captions number separately from embedded streams so they never clash
+    const id = trackId(stream);
+    const parts = [stream.language || id];
+    if (stream.forced) parts.push('forced');
+    if (stream.sdh) parts.push('sdh');
+    if (stream.commentary) parts.push('commentary');
+    // Untagged captions already say so through their id
+    if (stream.cc && stream.language) parts.push('cc');
+
+    let suffix = '.' + parts.join('.');
+    if (used.has(suffix)) {
+        suffix += `.${id}`;
+    }
+    used.add(suffix);
+    return suffix;
+}
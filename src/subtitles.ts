@@ -0,0 +1,624 @@
+/**
+ * Subtitle parsing and serialization
+ *
+ * Shared cue model for SRT, WebVTT and ASS/SSA. Every format is parsed into
+ * the same SubtitleDocument so conversions can be inspected and fixed here
+ * instead of being left to ffmpeg's encoders.
+ *
+ * Cue text uses a small common markup: lines separated by '\n' and inline
+ * <i>, <b> and <u> tags. Anything richer (ASS override blocks, WebVTT classes
+ * and voices) is dropped from `text`; ASS events keep their original text in
+ * `rawText`, and their other fields and unknown sections are kept as well, so
+ * styled ASS survives an ASS -> ASS round trip.
+ */
+
+import { createHash } from 'crypto';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+/**
+ * Cue placement, normalized across formats
+ * - alignment: numpad layout (1 = bottom left, 2 = bottom center, ... 9 = top right), as in ASS \an
+ * - x / y: anchor point in percent of the video frame
+ */
+export interface CuePosition {
+    alignment?: number;
+    x?: number;
+    y?: number;
+}
+
+export interface SubtitleCue {
+    start: number; // milliseconds
+    end: number; // milliseconds
+    text: string;
+    style?: string;
+    position?: CuePosition;
+    rawText?: string;
+    // ASS only: event fields besides timing, style and text, written back unchanged
+    assEvent?: AssEventFields;
+}
+
+export interface AssEventFields {
+    layer: string;
+    name: string;
+    marginL: string;
+    marginR: string;
+    marginV: string;
+    effect: string;
+}
+
+export interface SubtitleDocument {
+    format: SubtitleFormat;
+    cues: SubtitleCue[];
+    // ASS only: [Script Info] entries and styles, keyed by the Format: field names
+    scriptInfo?: Record<string, string>;
+    styleFormat?: string[];
+    styles?: Array<Record<string, string>>;
+    // Sections other than script info, styles and events ([Fonts], [Graphics], ...), line by line
+    extraSections?: Array<{ name: string; lines: string[] }>;
+}
+
+const TIMING_SEPARATOR = /\s*-->\s*/;
+
+// ============================================================================
+// Timestamps
+// ============================================================================
+
+/**
+ * Parse "HH:MM:SS,mmm", "HH:MM:SS.mmm", "MM:SS.mmm" or ASS "H:MM:SS.cc" into milliseconds
+ */
+export function parseTimestamp(value: string): number | null {
+    const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+    if (!match) return null;
+    const [, h, m, s, frac] = match;
+    // Fractions are scaled by their digit count: ".5" and ".50" (ASS centiseconds) are both 500ms
+    const ms = frac ? Math.round(parseInt(frac, 10) * Math.pow(10, 3 - frac.length)) : 0;
+    return ((parseInt(h || '0', 10) * 60 + parseInt(m, 10)) * 60 + parseInt(s, 10)) * 1000 + ms;
+}
+
+function pad(value: number, length: number): string {
+    return String(value).padStart(length, '0');
+}
+
+function splitTime(ms: number): { h: number; m: number; s: number; ms: number } {
+    const total = Math.max(0, Math.round(ms));
+    return {
+        h: Math.floor(total / 3600000),
+        m: Math.floor(total / 60000) % 60,
+        s: Math.floor(total / 1000) % 60,
+        ms: total % 1000,
+    };
+}
+
+export function formatSrtTimestamp(ms: number): string {
+    const t = splitTime(ms);
+    return `${pad(t.h, 2)}:${pad(t.m, 2)}:${pad(t.s, 2)},${pad(t.ms, 3)}`;
+}
+
+export function formatVttTimestamp(ms: number): string {
+    const t = splitTime(ms);
+    return `${pad(t.h, 2)}:${pad(t.m, 2)}:${pad(t.s, 2)}.${pad(t.ms, 3)}`;
+}
+
+export function formatAssTimestamp(ms: number): string {
+    // ASS only has centisecond precision
+    const t = splitTime(Math.round(ms / 10) * 10);
+    return `${t.h}:${pad(t.m, 2)}:${pad(t.s, 2)}.${pad(Math.floor(t.ms / 10), 2)}`;
+}
+
+// ============================================================================
+// Shared helpers
+// ============================================================================
+
+function normalizeInput(content: string): string {
+    return content.replace(/^\ufeff/, '').replace(/\r\n?/g, '\n');
+}
+
+function trimLines(text: string): string {
+    return text
+        .split('\n')
+        .map(line => line.trim())
+        .join('\n')
+        .trim();
+}
+
+/**
+ * Keep only the common <i>/<b>/<u> markup and collapse whitespace at line edges
+ */
+function cleanMarkup(text: string): string {
+    return trimLines(text
+        .replace(/<(\/?)(i|b|u)(?:\s[^>]*)?>/gi, (_, slash: string, tag: string) => `\u0000${slash}${tag.toLowerCase()}\u0001`)
+        .replace(/<[^>]*>/g, '')
+        .replace(/\u0000/g, '<')
+        .replace(/\u0001/g, '>'));
+}
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&nbsp;/g, '\u00a0')
+        .replace(/&lrm;/g, '\u200e')
+        .replace(/&rlm;/g, '\u200f')
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Read a leading {\anN} / {\pos(x,y)} override as used in SRT files
+ */
+function extractSrtPosition(text: string): { text: string; position?: CuePosition } {
+    const match = text.match(/^\{\\an([1-9])\}/);
+    if (!match) return { text };
+    return { text: text.slice(match[0].length), position: { alignment: parseInt(match[1], 10) } };
+}
+
+function sortCues(cues: SubtitleCue[]): SubtitleCue[] {
+    return cues.sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+// ============================================================================
+// SRT
+// ============================================================================
+
+export function parseSrt(content: string): SubtitleDocument {
+    const cues: SubtitleCue[] = [];
+    const blocks = normalizeInput(content).split(/\n\s*\n/);
+
+    for (const block of blocks) {
+        const lines = block.split('\n').filter((line, i) => i > 0 || line.trim() !== '');
+        const timingIndex = lines.findIndex(line => line.includes('-->'));
+        if (timingIndex === -1 || timingIndex > 1) continue;
+
+        const [startRaw, endRaw] = lines[timingIndex].split(TIMING_SEPARATOR);
+        const start = parseTimestamp(startRaw);
+        // Drop SRT coordinate extensions ("X1:... X2:...") after the end time
+        const end = endRaw ? parseTimestamp(endRaw.trim().split(/\s+/)[0]) : null;
+        if (start === null || end === null) continue;
+
+        const { text, position } = extractSrtPosition(lines.slice(timingIndex + 1).join('\n'));
+        cues.push({ start, end, text: decodeEntities(cleanMarkup(text)), position });
+    }
+
+    return { format: 'srt', cues: sortCues(cues) };
+}
+
+export function serializeSrt(doc: SubtitleDocument): string {
+    return doc.cues.map((cue, i) => {
+        const prefix = cue.position?.alignment && cue.position.alignment !== 2 ? `{\\an${cue.position.alignment}}` : '';
+        return `${i + 1}\n${formatSrtTimestamp(cue.start)} --> ${formatSrtTimestamp(cue.end)}\n${prefix}${cue.text}\n`;
+    }).join('\n');
+}
+
+// ============================================================================
+// WebVTT
+// ============================================================================
+
+const VTT_ALIGN_COLUMN: Record<string, number> = { start: 1, left: 1, center: 2, middle: 2, end: 3, right: 3 };
+
+function parseVttSettings(settings: string): CuePosition | undefined {
+    const position: CuePosition = {};
+    let column = 2;
+    let row = 0; // 0 = bottom, 1 = middle, 2 = top
+
+    for (const setting of settings.split(/\s+/)) {
+        const [key, value] = setting.split(':');
+        if (!value) continue;
+        if (key === 'align' && VTT_ALIGN_COLUMN[value]) {
+            column = VTT_ALIGN_COLUMN[value];
+        } else if (key === 'position') {
+            const percent = parseFloat(value);
+            if (!isNaN(percent)) position.x = percent;
+        } else if (key === 'line') {
+            const lineValue = value.split(',')[0];
+            if (lineValue.endsWith('%')) {
+                const percent = parseFloat(lineValue);
+                if (!isNaN(percent)) {
+                    position.y = percent;
+                    row = percent < 33 ? 2 : percent < 66 ? 1 : 0;
+                }
+            } else {
+                // Positive line numbers count from the top, negative from the bottom
+                const lineNumber = parseInt(lineValue, 10);
+                if (!isNaN(lineNumber) && lineNumber >= 0) row = 2;
+            }
+        }
+    }
+
+    const alignment = row * 3 + column;
+    if (alignment !== 2) position.alignment = alignment;
+    return Object.keys(position).length > 0 ? position : undefined;
+}
+
+function formatVttSettings(position?: CuePosition): string {
+    if (!position) return '';
+    const settings: string[] = [];
+    const alignment = position.alignment ?? 2;
+    const column = (alignment - 1) % 3;
+    const row = Math.floor((alignment - 1) / 3);
+
+    if (column !== 1) settings.push(`align:${column === 0 ? 'start' : 'end'}`);
+    if (position.x !== undefined) settings.push(`position:${round(position.x)}%`);
+    if (position.y !== undefined) {
+        settings.push(`line:${round(position.y)}%`);
+    } else if (row === 2) {
+        settings.push('line:0');
+    } else if (row === 1) {
+        settings.push('line:50%');
+    }
+    return settings.length > 0 ? ' ' + settings.join(' ') : '';
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function cleanVttText(text: string): string {
+    return text
+        // Inline karaoke timestamps
+        .replace(/<\d{1,2}:\d{2}(?::\d{2})?\.\d{3}>/g, '')
+        // Ruby annotations carry no readable text of their own
+        .replace(/<rt>[\s\S]*?<\/rt>/g, '');
+}
+
+export function parseVtt(content: string): SubtitleDocument {
+    const cues: SubtitleCue[] = [];
+    const blocks = normalizeInput(content).split(/\n\s*\n/);
+
+    for (const block of blocks) {
+        const lines = block.split('\n').filter((line, i) => i > 0 || line.trim() !== '');
+        if (lines.length === 0) continue;
+        const first = lines[0].trim();
+        if (first.startsWith('WEBVTT') || first.startsWith('NOTE') || first === 'STYLE' || first === 'REGION') {
+            continue;
+        }
+
+        const timingIndex = lines.findIndex(line => line.includes('-->'));
+        if (timingIndex === -1 || timingIndex > 1) continue;
+
+        const [startRaw, rest] = lines[timingIndex].split(TIMING_SEPARATOR);
+        if (!rest) continue;
+        const [endRaw, ...settings] = rest.trim().split(/\s+/);
+        const start = parseTimestamp(startRaw);
+        const end = parseTimestamp(endRaw);
+        if (start === null || end === null) continue;
+
+        const text = cleanMarkup(cleanVttText(lines.slice(timingIndex + 1).join('\n')));
+        cues.push({ start, end, text: decodeEntities(text), position: parseVttSettings(settings.join(' ')) });
+    }
+
+    return { format: 'vtt', cues: sortCues(cues) };
+}
+
+function escapeVttText(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/<(?!\/?[ibu]>)/g, '&lt;')
+        .replace(/(?<!<\/?[ibu])>/g, '&gt;');
+}
+
+export function serializeVtt(doc: SubtitleDocument): string {
+    const body = doc.cues.map(cue =>
+        `${formatVttTimestamp(cue.start)} --> ${formatVttTimestamp(cue.end)}${formatVttSettings(cue.position)}\n${escapeVttText(cue.text)}\n`
+    );
+    return ['WEBVTT\n', ...body].join('\n');
+}
+
+// ============================================================================
+// ASS / SSA
+// ============================================================================
+
+const DEFAULT_PLAY_RES_X = 384;
+const DEFAULT_PLAY_RES_Y = 288;
+
+const ASS_STYLE_FORMAT = [
+    'Name', 'Fontname', 'Fontsize', 'PrimaryColour', 'SecondaryColour', 'OutlineColour', 'BackColour',
+    'Bold', 'Italic', 'Underline', 'StrikeOut', 'ScaleX', 'ScaleY', 'Spacing', 'Angle', 'BorderStyle',
+    'Outline', 'Shadow', 'Alignment', 'MarginL', 'MarginR', 'MarginV', 'Encoding',
+];
+
+const ASS_DEFAULT_STYLE: Record<string, string> = {
+    Name: 'Default', Fontname: 'Arial', Fontsize: '16', PrimaryColour: '&Hffffff', SecondaryColour: '&Hffffff',
+    OutlineColour: '&H0', BackColour: '&H0', Bold: '0', Italic: '0', Underline: '0', StrikeOut: '0',
+    ScaleX: '100', ScaleY: '100', Spacing: '0', Angle: '0', BorderStyle: '1', Outline: '1', Shadow: '0',
+    Alignment: '2', MarginL: '10', MarginR: '10', MarginV: '10', Encoding: '0',
+};
+
+// Sections read into the document model; any other section is copied through as is
+const ASS_SECTIONS = new Set(['script info', 'v4+ styles', 'v4 styles', 'events']);
+
+const ASS_EVENT_FORMAT = ['Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'];
+
+/**
+ * Legacy SSA \a alignment (1-3 bottom, 5-7 top, 9-11 middle) to numpad \an
+ */
+function ssaToNumpadAlignment(value: number): number | undefined {
+    const column = value & 3;
+    if (column < 1 || column > 3) return undefined;
+    const row = value & 4 ? 2 : value & 8 ? 1 : 0;
+    return row * 3 + column;
+}
+
+function splitFields(line: string, count: number): string[] {
+    // The last field (Text) may itself contain commas
+    const fields: string[] = [];
+    let rest = line;
+    for (let i = 0; i < count - 1; i++) {
+        const comma = rest.indexOf(',');
+        if (comma === -1) break;
+        fields.push(rest.slice(0, comma).trim());
+        rest = rest.slice(comma + 1);
+    }
+    fields.push(count - 1 === fields.length ? rest : rest.trim());
+    return fields;
+}
+
+/**
+ * Convert ASS event text to the common markup, collecting placement overrides
+ */
+function convertAssText(raw: string, playResX: number, playResY: number): { text: string; position?: CuePosition } {
+    const position: CuePosition = {};
+    const state = { i: false, b: false, u: false };
+    let drawing = false;
+    let text = '';
+
+    const toggle = (tag: 'i' | 'b' | 'u', on: boolean) => {
+        if (state[tag] === on) return;
+        state[tag] = on;
+        text += on ? `<${tag}>` : `</${tag}>`;
+    };
+
+    const parts = raw.split(/(\{[^}]*\})/);
+    for (const part of parts) {
+        if (part.startsWith('{') && part.endsWith('}')) {
+            for (const tag of part.slice(1, -1).split('\\').slice(1)) {
+                let match: RegExpMatchArray | null;
+                if ((match = tag.match(/^an([1-9])/))) {
+                    position.alignment = parseInt(match[1], 10);
+                } else if ((match = tag.match(/^a(\d+)/))) {
+                    const alignment = ssaToNumpadAlignment(parseInt(match[1], 10));
+                    if (alignment) position.alignment = alignment;
+                } else if ((match = tag.match(/^pos\(\s*([-\d.]+)\s*,\s*([-\d.]+)\s*\)/))) {
+                    position.x = round(parseFloat(match[1]) / playResX * 100);
+                    position.y = round(parseFloat(match[2]) / playResY * 100);
+                } else if ((match = tag.match(/^([ibu])(\d*)$/))) {
+                    toggle(match[1] as 'i' | 'b' | 'u', match[2] !== '' && match[2] !== '0');
+                } else if ((match = tag.match(/^p(\d+)$/))) {
+                    drawing = match[1] !== '0';
+                } else if (tag.startsWith('r')) {
+                    toggle('i', false);
+                    toggle('b', false);
+                    toggle('u', false);
+                }
+            }
+            continue;
+        }
+        // Vector drawings are not text
+        if (drawing) continue;
+        text += part.replace(/\\[Nn]/g, '\n').replace(/\\h/g, '\u00a0');
+    }
+
+    toggle('u', false);
+    toggle('b', false);
+    toggle('i', false);
+
+    return {
+        // '<' is literal in ASS, so only the tags generated above are markup
+        text: trimLines(text.replace(/<(i|b|u)><\/\1>/g, '')),
+        position: Object.keys(position).length > 0 ? position : undefined,
+    };
+}
+
+export function parseAss(content: string): SubtitleDocument {
+    const scriptInfo: Record<string, string> = {};
+    const styles: Array<Record<string, string>> = [];
+    const cues: SubtitleCue[] = [];
+    let styleFormat: string[] = [];
+    let eventFormat = ASS_EVENT_FORMAT;
+    let section = '';
+    const extraSections: Array<{ name: string; lines: string[] }> = [];
+
+    const lines = normalizeInput(content).split('\n');
+    // Script resolution is needed before events are read to convert \pos()
+    let playResX = DEFAULT_PLAY_RES_X;
+    let playResY = DEFAULT_PLAY_RES_Y;
+
+    for (const rawLine of lines) {
+        const line = rawLine.trim();
+        if (!line) continue;
+
+        const header = line.match(/^\[(.+)\]$/);
+        if (header) {
+            section = header[1].toLowerCase();
+            if (!ASS_SECTIONS.has(section)) {
+                extraSections.push({ name: header[1], lines: [] });
+            }
+            continue;
+        }
+        // Embedded fonts and pictures are uuencoded lines without a key, so other sections are kept verbatim
+        if (section && !ASS_SECTIONS.has(section)) {
+            extraSections[extraSections.length - 1].lines.push(rawLine);
+            continue;
+        }
+        if (line.startsWith(';')) continue;
+
+        const colon = line.indexOf(':');
+        if (colon === -1) continue;
+        const key = line.slice(0, colon).trim();
+        const value = line.slice(colon + 1).trim();
+
+        if (section === 'script info') {
+            scriptInfo[key] = value;
+            if (key === 'PlayResX') playResX = parseInt(value, 10) || playResX;
+            if (key === 'PlayResY') playResY = parseInt(value, 10) || playResY;
+        } else if (section === 'v4+ styles' || section === 'v4 styles') {
+            if (key === 'Format') {
+                styleFormat = value.split(',').map(f => f.trim());
+            } else if (key === 'Style') {
+                const fields = value.split(',').map(f => f.trim());
+                const style: Record<string, string> = {};
+                styleFormat.forEach((name, i) => { style[name] = fields[i] ?? ''; });
+                styles.push(style);
+            }
+        } else if (section === 'events') {
+            if (key === 'Format') {
+                eventFormat = value.split(',').map(f => f.trim());
+            } else if (key === 'Dialogue') {
+                const fields = splitFields(line.slice(colon + 1).replace(/^ /, ''), eventFormat.length);
+                const event: Record<string, string> = {};
+                eventFormat.forEach((name, i) => { event[name] = fields[i] ?? ''; });
+
+                const start = parseTimestamp(event.Start ?? '');
+                const end = parseTimestamp(event.End ?? '');
+                if (start === null || end === null) continue;
+
+                const rawText = event.Text ?? '';
+                const { text, position } = convertAssText(rawText, playResX, playResY);
+                const assEvent: AssEventFields = {
+                    layer: event.Layer || '0',
+                    name: event.Name ?? '',
+                    marginL: event.MarginL || '0',
+                    marginR: event.MarginR || '0',
+                    marginV: event.MarginV || '0',
+                    effect: event.Effect ?? '',
+                };
+                cues.push({ start, end, text, style: event.Style || undefined, position, rawText, assEvent });
+            }
+        }
+    }
+
+    return {
+        format: 'ass',
+        cues: sortCues(cues),
+        scriptInfo,
+        styleFormat: styleFormat.length > 0 ? styleFormat : undefined,
+        styles: styles.length > 0 ? styles : undefined,
+        extraSections: extraSections.length > 0 ? extraSections : undefined,
+    };
+}
+
+/**
+ * Convert common markup back to ASS event text
+ */
+function toAssText(cue: SubtitleCue, playResX: number, playResY: number): string {
+    const overrides: string[] = [];
+    if (cue.position?.alignment && cue.position.alignment !== 2) overrides.push(`\\an${cue.position.alignment}`);
+    if (cue.position?.x !== undefined && cue.position?.y !== undefined) {
+        overrides.push(`\\pos(${Math.round(cue.position.x / 100 * playResX)},${Math.round(cue.position.y / 100 * playResY)})`);
+    }
+
+    const body = cue.text
+        .replace(/<(\/?)([ibu])>/g, (_, slash: string, tag: string) => `{\\${tag}${slash ? 0 : 1}}`)
+        .replace(/<[^>]*>/g, '')
+        .replace(/\n/g, '\\N');
+
+    return (overrides.length > 0 ? `{${overrides.join('')}}` : '') + body;
+}
+
+export function serializeAss(doc: SubtitleDocument): string {
+    // Only reuse ASS-specific data when the document came from ASS
+    const fromAss = doc.format === 'ass';
+    const scriptInfo: Record<string, string> = {
+        ScriptType: 'v4.00+',
+        PlayResX: String(DEFAULT_PLAY_RES_X),
+        PlayResY: String(DEFAULT_PLAY_RES_Y),
+        ...(fromAss ? doc.scriptInfo : {}),
+    };
+    scriptInfo.ScriptType = 'v4.00+';
+
+    const playResX = parseInt(scriptInfo.PlayResX, 10) || DEFAULT_PLAY_RES_X;
+    const playResY = parseInt(scriptInfo.PlayResY, 10) || DEFAULT_PLAY_RES_Y;
+
+    const styles = fromAss && doc.styles && doc.styles.length > 0 ? doc.styles : [ASS_DEFAULT_STYLE];
+    const styleNames = new Set(styles.map(s => s.Name));
+
+    const lines: string[] = ['[Script Info]'];
+    for (const [key, value] of Object.entries(scriptInfo)) {
+        lines.push(`${key}: ${value}`);
+    }
+
+    lines.push('', '[V4+ Styles]', `Format: ${ASS_STYLE_FORMAT.join(', ')}`);
+    for (const style of styles) {
+        // SSA v4 styles lack some V4+ fields; fill them from the default style
+        lines.push(`Style: ${ASS_STYLE_FORMAT.map(name => style[name] ?? ASS_DEFAULT_STYLE[name]).join(',')}`);
+    }
+
+    // [Fonts] and [Graphics] belong between the styles and the events
+    for (const section of fromAss ? doc.extraSections ?? [] : []) {
+        lines.push('', `[${section.name}]`, ...section.lines);
+    }
+
+    lines.push('', '[Events]', `Format: ${ASS_EVENT_FORMAT.join(', ')}`);
+    for (const cue of doc.cues) {
+        const style = cue.style && styleNames.has(cue.style) ? cue.style : styles[0].Name;
+        const text = fromAss && cue.rawText !== undefined ? cue.rawText : toAssText(cue, playResX, playResY);
+        const event = fromAss ? cue.assEvent : undefined;
+        const fields = event
+            ? [event.layer, formatAssTimestamp(cue.start), formatAssTimestamp(cue.end), style, event.name, event.marginL, event.marginR, event.marginV, event.effect]
+            : ['0', formatAssTimestamp(cue.start), formatAssTimestamp(cue.end), style, '', '0', '0', '0', ''];
+        lines.push(`Dialogue: ${fields.join(',')},${text}`);
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+// ============================================================================
+// Dispatch
+// ============================================================================
+
+/**
+ * Guess the format of subtitle content from its first lines
+ */
+export function detectSubtitleFormat(content: string): SubtitleFormat | null {
+    const head = normalizeInput(content).trimStart().slice(0, 2048);
+    if (head.startsWith('WEBVTT')) return 'vtt';
+    if (/^\[Script Info\]/im.test(head) || /^\[V4\+? Styles\]/im.test(head) || /^Dialogue:/m.test(head)) return 'ass';
+    if (/\d{1,2}:\d{2}:\d{2}[,.]\d{1,3}\s*-->/.test(head)) return 'srt';
+    return null;
+}
+
+export function parseSubtitle(content: string, format?: SubtitleFormat): SubtitleDocument {
+    const detected = format ?? detectSubtitleFormat(content);
+    switch (detected) {
+        case 'srt': return parseSrt(content);
+        case 'vtt': return parseVtt(content);
+        case 'ass': return parseAss(content);
+        default: throw new Error('Unrecognized subtitle format');
+    }
+}
+
+export function serializeSubtitle(doc: SubtitleDocument, format: SubtitleFormat): string {
+    switch (format) {
+        case 'srt': return serializeSrt(doc);
+        case 'vtt': return serializeVtt(doc);
+        case 'ass': return serializeAss(doc);
+        default: throw new Error(`Unsupported subtitle format: ${format}`);
+    }
+}
+
+/**
+ * Convert subtitle content between formats
+ */
+export function convertSubtitle(content: string, to: SubtitleFormat, from?: SubtitleFormat): string {
+    return serializeSubtitle(parseSubtitle(content, from), to);
+}
+
+/**
+ * Cue text reduced to what a viewer reads: no markup, lowercase, single spaces
+ */
+export function normalizeCueText(text: string): string {
+    return text.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Hash of a document's dialogue, ignoring markup, case, whitespace and timings
+ * Two tracks with the same fingerprint carry the same subtitles, even when one was
+ * retimed slightly or came from a different container or format.
+ */
+export function cueFingerprint(cues: SubtitleCue[]): string {
+    const hash = createHash('sha256');
+    for (const cue of cues) {
+        const text = normalizeCueText(cue.text);
+        if (text) hash.update(text + '\n');
+    }
+    return hash.digest('hex');
+}
@@ -0,0 +1,103 @@
+/**
+ * Track selection filters
+ *
+ * Decides which subtitle streams are worth extracting for a library, based on
+ * language allow/deny lists, a per-language cap and the track flags.
+ */
+
+import { trackId, type SubtitleStream } from './streams.js';
+import { primaryLanguage } from './language.js';
+
+export interface TrackFilterConfig {
+    languageAllowList: string[];
+    languageDenyList: string[];
+    maxTracksPerLanguage: number; // 0 = unlimited
+    skipForced: boolean;
+    skipSdh: boolean;
+    skipCommentary: boolean;
+}
+
+export interface ExcludedTrack {
+    stream: SubtitleStream;
+    filter: keyof TrackFilterConfig;
+}
+
+export interface TrackFilterResult {
+    selected: SubtitleStream[];
+    excluded: ExcludedTrack[];
+}
+
+/**
+ * Parse a list option given either as an array or a comma-separated string
+ */
+export function parseList(value: unknown): string[] {
+    const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+    return list.map(v => String(v).trim().toLowerCase()).filter(v => v !== '');
+}
+
+export function parseTrackFilterConfig(config: Record<string, unknown>): TrackFilterConfig {
+    const maxTracks = Number(config.maxTracksPerLanguage);
+    return {
+        languageAllowList: parseList(config.languageAllowList).map(languageKey),
+        languageDenyList: parseList(config.languageDenyList).map(languageKey),
+        maxTracksPerLanguage: Number.isFinite(maxTracks) && maxTracks > 0 ? Math.floor(maxTracks) : 0,
+        skipForced: config.skipForced === true,
+        skipSdh: config.skipSdh === true,
+        skipCommentary: config.skipCommentary === true,
+    };
+}
+
+/**
+ * Compare languages by their primary code so `en`, `eng` and `en-US` all match
+ */
+function languageKey(tag: string | undefined): string {
+    return primaryLanguage(tag) ?? (tag && !tag.includes('-') ? tag.toLowerCase() : 'und');
+}
+
+/**
+ * Apply the filters in stream order
+ * The per-language cap counts only tracks that passed every other filter.
+ */
+export function filterTracks(streams: SubtitleStream[], config: TrackFilterConfig): TrackFilterResult {
+    const selected: SubtitleStream[] = [];
+    const excluded: ExcludedTrack[] = [];
+    const perLanguage = new Map<string, number>();
+
+    for (const stream of streams) {
+        const language = languageKey(stream.language);
+
+        let filter: keyof TrackFilterConfig | undefined;
+        if (config.languageAllowList.length > 0 && !config.languageAllowList.includes(language)) {
+            filter = 'languageAllowList';
+        } else if (config.languageDenyList.includes(language)) {
+            filter = 'languageDenyList';
+        } else if (config.skipForced && stream.forced) {
+            filter = 'skipForced';
+        } else if (config.skipSdh && stream.sdh) {
+            filter = 'skipSdh';
+        } else if (config.skipCommentary && stream.commentary) {
+            filter = 'skipCommentary';
+        } else if (config.maxTracksPerLanguage > 0 && (perLanguage.get(language) ?? 0) >= config.maxTracksPerLanguage) {
+            filter = 'maxTracksPerLanguage';
+        }
+
+        if (filter) {
+            excluded.push({ stream, filter });
+            continue;
+        }
+        perLanguage.set(language, (perLanguage.get(language) ?? 0) + 1);
+        selected.push(stream);
+    }
+
+    return { selected, excluded };
+}
+
+/**
+ * Describe excluded tracks for logs and callback reasons, e.g. "track 2 (fre): languageDenyList"
+ * Tracks are named by trackId, so sidecars (`ext0`) and captions (`cc0`) are told apart from embedded tracks.
+ */
+export function describeExcluded(excluded: ExcludedTrack[]): string {
+    return excluded
+        .map(({ stream, filter }) => `track ${trackId(stream)} (${stream.language || 'und'}): ${filter}`)
+        .join('; ');
+}
@@ -24,12 +24,23 @@ export interface SchemaField {
     hint?: string;
 }
 
+export interface ConfigOption {
+    value: string;
+    label?: string;
+}
+
 export interface ConfigField {
-    type: 'string' | 'number' | 'boolean' | 'select';
+    type: 'string' | 'number' | 'boolean' | 'select' | 'multiselect';
     label?: string;
+    description?: string;
     required?: boolean;
     default?: unknown;
     secret?: boolean;
+    // Allowed values of select and multiselect fields
+    options?: ConfigOption[];
+    // Bounds of number fields (inclusive)
+    min?: number;
+    max?: number;
 }
 
 export interface HealthResponse {
@@ -50,6 +61,7 @@ export interface ProcessRequest {
 export interface ProcessResponse {
     status: 'accepted' | 'rejected';
     error?: string;
+    retryable?: boolean;
 }
 
 export interface CallbackPayload {
@@ -67,4 +79,6 @@ export interface ConfigureRequest {
 export interface ConfigureResponse {
     status: 'ok' | 'error';
     error?: string;
+    // Per-field validation errors, keyed by config field name
+    errors?: Record<string, string>;
 }
@@ -0,0 +1,100 @@
+/**
+ * Bounded worker pool for /process jobs
+ *
+ * Runs at most `concurrency` tasks at once and keeps at most `queueSize` waiting.
+ * Submissions beyond that are refused so callers can push back on the orchestrator
+ * instead of piling up ffmpeg processes.
+ */
+
+interface QueuedTask {
+    id: string;
+    run: () => Promise<void>;
+}
+
+export class WorkerPool {
+    private active = 0;
+    private queue: QueuedTask[] = [];
+    private idleWaiters: Array<() => void> = [];
+
+    constructor(readonly concurrency: number, readonly queueSize: number) {}
+
+    get running(): number {
+        return this.active;
+    }
+
+    get queued(): number {
+        return this.queue.length;
+    }
+
+    /**
+     * True when a new submission would be refused
+     */
+    get saturated(): boolean {
+        return this.active >= this.concurrency && this.queue.length >= this.queueSize;
+    }
+
+    /**
+     * Start a task now or queue it; returns false when the queue is full
+     */
+    submit(id: string, run: () => Promise<void>): boolean {
+        if (this.active < this.concurrency) {
+            this.start({ id, run });
+            return true;
+        }
+        if (this.queue.length >= this.queueSize) {
+            return false;
+        }
+        this.queue.push({ id, run });
+        return true;
+    }
+
+    /**
+     * Drop a task that has not started yet; returns false if it is not queued
+     */
+    remove(id: string): boolean {
+        const index = this.queue.findIndex(task => task.id === id);
+        if (index === -1) return false;
+        this.queue.splice(index, 1);
+        return true;
+    }
+
+    /**
+     * Drop every task that has not started yet and return their ids
+     */
+    clear(): string[] {
+        return this.queue.splice(0).map(task => task.id);
+    }
+
+    /**
+     * Resolves once no task is running and none is queued
+     */
+    whenIdle(): Promise<void> {
+        if (this.active === 0 && this.queue.length === 0) return Promise.resolve();
+        return new Promise(resolve => this.idleWaiters.push(resolve));
+    }
+
+    private start(task: QueuedTask): void {
+        this.active++;
+        task.run()
+            .catch((error) => {
+                console.error(`[subtitle-extractor] Worker task ${task.id} failed:`, error);
+            })
+            .finally(() => {
+                this.active--;
+                const next = this.queue.shift();
+                if (next) {
+                    this.start(next);
+                } else if (this.active === 0) {
+                    this.idleWaiters.splice(0).forEach(resolve => resolve());
+                }
+            });
+    }
+}
+
+/**
+ * Read a positive integer from the environment, falling back to a default
+ */
+export function readPoolSize(name: string, fallback: number, min = 1): number {
+    const value = parseInt(process.env[name] || '', 10);
+    return Number.isFinite(value) && value >= min ? value : fallback;
+}
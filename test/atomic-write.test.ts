@@ -0,0 +1,37 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { removeTempFiles, writeFileAtomic } from '../src/atomic-write.js';
+
+describe('writeFileAtomic', () => {
+    let dir: string;
+    beforeEach(() => {
+        dir = mkdtempSync(path.join(tmpdir(), 'atomic-write-'));
+    });
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('writes all of a large buffer and leaves no temp file', () => {
+        const data = Buffer.alloc(8 * 1024 * 1024, 'subtitle ');
+        const file = path.join(dir, 'movie.srt');
+        writeFileAtomic(file, data);
+        expect(readFileSync(file).equals(data)).toBe(true);
+        expect(readdirSync(dir)).toEqual(['movie.srt']);
+    });
+
+    it('replaces an existing file', () => {
+        const file = path.join(dir, 'movie.srt');
+        writeFileAtomic(file, 'old');
+        writeFileAtomic(file, 'new');
+        expect(readFileSync(file, 'utf-8')).toBe('new');
+    });
+
+    it('removes only leftover temp files', () => {
+        writeFileSync(path.join(dir, '.movie.srt.0a1b2c3d.partial'), 'partial');
+        writeFileSync(path.join(dir, 'movie.srt'), 'kept');
+        expect(removeTempFiles(dir)).toBe(1);
+        expect(readdirSync(dir)).toEqual(['movie.srt']);
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { cleanupSubtitle, compileAdPattern, type CleanupConfig } from '../src/cleanup.js';
+import type { SubtitleDocument } from '../src/subtitles.js';
+
+const config = (extra: Partial<CleanupConfig> = {}): CleanupConfig => ({
+    stripHearingImpaired: false,
+    stripStyling: false,
+    removeAds: false,
+    adPattern: null,
+    mergeCues: false,
+    ...extra,
+});
+
+function doc(...texts: string[]): SubtitleDocument {
+    return { format: 'srt', cues: texts.map((text, i) => ({ start: i * 2000, end: i * 2000 + 1500, text })) };
+}
+
+describe('default advert pattern', () => {
+    const ads = config({ removeAds: true, adPattern: compileAdPattern(undefined) });
+
+    it('drops credit lines and URLs', () => {
+        const { doc: cleaned, stats } = cleanupSubtitle(doc(
+            'Subtitles by <i>SomeGroup</i>',
+            'Synced and corrected by someone',
+            'Downloaded from www.example.org',
+            'https://example.net/subs',
+            'Hello.',
+        ), ads);
+        expect(cleaned.cues.map(c => c.text)).toEqual(['Hello.']);
+        expect(stats.removed).toBe(4);
+    });
+
+    it('keeps dialogue that mentions a bare domain', () => {
+        const lines = ['He works at Amazon.com now.', 'Send it to the .org address.', 'It was the net result.'];
+        expect(cleanupSubtitle(doc(...lines), ads).doc.cues.map(c => c.text)).toEqual(lines);
+    });
+
+    it('uses a custom pattern instead of the default', () => {
+        const custom = config({ removeAds: true, adPattern: compileAdPattern('^ENCODED BY') });
+        expect(cleanupSubtitle(doc('Encoded by X', 'Subtitles by Y'), custom).doc.cues.map(c => c.text)).toEqual(['Subtitles by Y']);
+    });
+});
+
+describe('cleanupSubtitle', () => {
+    it('strips hearing-impaired annotations and drops cues left empty', () => {
+        const { doc: cleaned } = cleanupSubtitle(doc('[DOOR CLOSES]', 'JOHN: Where were you?', '♪ ♪', '♪ [MUSIC PLAYING] ♪'), config({ stripHearingImpaired: true }));
+        expect(cleaned.cues.map(c => c.text)).toEqual(['Where were you?']);
+    });
+
+    it('keeps the words of sung lines', () => {
+        const { doc: cleaned } = cleanupSubtitle(doc('♪ Happy birthday to you ♪', 'MARY: ♫ Happy birthday ♫\n♪'), config({ stripHearingImpaired: true }));
+        expect(cleaned.cues.map(c => c.text)).toEqual(['Happy birthday to you', 'Happy birthday']);
+    });
+});
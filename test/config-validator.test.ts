@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { validateConfig } from '../src/config-validator.js';
+import type { ConfigField } from '../src/types.js';
+
+const fields: Record<string, ConfigField> = {
+    enabled: { type: 'boolean', default: false },
+    threshold: { type: 'number', min: 0, max: 1, default: 0.5 },
+    name: { type: 'string', required: true },
+    style: { type: 'select', options: [{ value: 'short', label: 'Short' }, { value: 'long', label: 'Long' }], default: 'short' },
+    formats: { type: 'multiselect', options: [{ value: 'srt', label: 'SRT' }, { value: 'vtt', label: 'VTT' }], default: ['srt'] },
+};
+
+describe('validateConfig', () => {
+    it('fills in defaults and passes unknown keys through', () => {
+        const { config, errors } = validateConfig({ name: 'x', legacy: 1 }, fields);
+        expect(errors).toEqual({});
+        expect(config).toEqual({ name: 'x', legacy: 1, enabled: false, threshold: 0.5, style: 'short', formats: ['srt'] });
+    });
+
+    it('reports required fields without a default', () => {
+        expect(validateConfig({}, fields).errors).toEqual({ name: 'Required' });
+    });
+
+    it('reports each invalid field', () => {
+        const { errors } = validateConfig({ name: 'x', enabled: 'yes', threshold: 2, style: 'medium', formats: 'srt,ass' }, fields);
+        expect(errors).toEqual({
+            enabled: 'Must be true or false',
+            threshold: 'Must be at most 1',
+            style: 'Must be one of: short, long',
+            formats: 'Unknown value(s) ass; allowed: srt, vtt',
+        });
+    });
+
+    it('accepts numbers and lists written as strings', () => {
+        expect(validateConfig({ name: 'x', threshold: '0.7', formats: 'srt, vtt' }, fields).errors).toEqual({});
+        expect(validateConfig({ name: 'x', threshold: 'high' }, fields).errors).toEqual({ threshold: 'Must be a number' });
+    });
+
+    it('runs extra checks on fields that pass their type check', () => {
+        const checks = { name: (value: unknown) => (value === 'bad' ? 'Not allowed' : null) };
+        expect(validateConfig({ name: 'bad' }, fields, checks).errors).toEqual({ name: 'Not allowed' });
+        expect(validateConfig({ name: 4 }, fields, checks).errors).toEqual({ name: 'Must be a string' });
+    });
+});
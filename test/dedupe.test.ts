@@ -0,0 +1,76 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { SubtitleIndex, signatureSimilarity, subtitleSignature, type IndexedSubtitle } from '../src/dedupe.js';
+import type { SubtitleCue } from '../src/subtitles.js';
+
+function cues(count: number, text = (i: number) => `Line ${i}`, offsetMs = 0): SubtitleCue[] {
+    return Array.from({ length: count }, (_, i) => ({ start: i * 3000 + offsetMs, end: i * 3000 + 2000 + offsetMs, text: text(i) }));
+}
+
+describe('signatureSimilarity', () => {
+    it('treats copies that differ only in styling, case and rounding as identical', () => {
+        const styled = cues(20, i => `{\\i1}LINE ${i}{\\i0}`, 4);
+        expect(signatureSimilarity(subtitleSignature(cues(20)), subtitleSignature(styled))).toBe(1);
+    });
+
+    it('estimates the share of cues in common', () => {
+        const half = cues(20, i => (i < 10 ? `Line ${i}` : `Other ${i}`));
+        const similarity = signatureSimilarity(subtitleSignature(cues(20)), subtitleSignature(half));
+        expect(similarity).toBeGreaterThan(0.2);
+        expect(similarity).toBeLessThan(0.6);
+    });
+
+    it('stops matching retimed copies', () => {
+        expect(signatureSimilarity(subtitleSignature(cues(20)), subtitleSignature(cues(20, undefined, 5000)))).toBeLessThan(0.5);
+    });
+
+    it('ignores empty cues', () => {
+        expect(subtitleSignature([...cues(3), { start: 0, end: 1, text: '  ' }]).cues).toBe(3);
+    });
+});
+
+describe('SubtitleIndex', () => {
+    const dirs: string[] = [];
+    const tempDir = () => {
+        const dir = mkdtempSync(path.join(tmpdir(), 'subtitle-index-'));
+        dirs.push(dir);
+        return dir;
+    };
+    afterEach(() => {
+        for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+    });
+
+    const entry = (fileName: string, extra: Partial<IndexedSubtitle> = {}): IndexedSubtitle => ({
+        cid: `cid-${fileName}`,
+        fileName,
+        format: 'srt',
+        videoCid: 'video-a',
+        signature: subtitleSignature(cues(20)),
+        indexedAt: new Date(0).toISOString(),
+        ...extra,
+    });
+
+    it('finds a file of another video with the same format and variant', () => {
+        const index = new SubtitleIndex(tempDir());
+        index.add(entry('a.eng.srt'));
+        index.add(entry('a.eng.vtt', { format: 'vtt' }));
+        index.add(entry('a.eng.raw.srt', { variant: 'raw' }));
+        const signature = subtitleSignature(cues(20));
+
+        expect(index.find(signature, { format: 'srt', minSimilarity: 0.9, excludeVideo: 'video-b' })?.entry.fileName).toBe('a.eng.srt');
+        expect(index.find(signature, { format: 'vtt', minSimilarity: 0.9, excludeVideo: 'video-b' })?.entry.fileName).toBe('a.eng.vtt');
+        expect(index.find(signature, { format: 'srt', variant: 'raw', minSimilarity: 0.9, excludeVideo: 'video-b' })?.entry.fileName).toBe('a.eng.raw.srt');
+        expect(index.find(signature, { format: 'srt', minSimilarity: 0.9, excludeVideo: 'video-a' })).toBeNull();
+    });
+
+    it('keeps entries across instances until they are removed', () => {
+        const dir = tempDir();
+        new SubtitleIndex(dir).add(entry('a.eng.srt'));
+        const reloaded = new SubtitleIndex(dir);
+        expect(reloaded.size).toBe(1);
+        reloaded.remove('a.eng.srt');
+        expect(new SubtitleIndex(dir).size).toBe(0);
+    });
+});
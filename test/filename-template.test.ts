@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILENAME_TEMPLATE, parseFilenameTemplate, renderFilename, sanitizeFilename } from '../src/filename-template.js';
+
+describe('renderFilename', () => {
+    const defaultTemplate = parseFilenameTemplate(DEFAULT_FILENAME_TEMPLATE);
+
+    it('renders the default names', () => {
+        const values = { cid: 'bafy', title: 'Movie', movieYear: '1999', track: 'eng.forced', ext: 'srt' };
+        expect(renderFilename(defaultTemplate, values)).toBe('Movie (1999)[bafy]_subtitle.eng.forced.srt');
+    });
+
+    it('falls back through alternatives and drops incomplete optional sections', () => {
+        expect(renderFilename(defaultTemplate, { cid: 'bafy', track: 'eng', ext: 'srt' })).toBe('video[bafy]_subtitle.eng.srt');
+    });
+
+    it('pads numbers and renders subdirectories', () => {
+        const template = parseFilenameTemplate('{title}/S{season:2}E{episode:2}.{track}.{ext}');
+        expect(renderFilename(template, { title: 'Show', season: '1', episode: '12', track: 'eng', ext: 'vtt' })).toBe('Show/S01E12.eng.vtt');
+    });
+
+    it('keeps values from adding directories or leaving /output', () => {
+        const template = parseFilenameTemplate('{title}/{track}.{ext}');
+        expect(renderFilename(template, { title: '../etc', track: 'eng', ext: 'srt' })).toBe('..etc/eng.srt');
+        expect(renderFilename(template, { title: '..', track: 'eng', ext: 'srt' })).toBe('_/eng.srt');
+    });
+});
+
+describe('parseFilenameTemplate', () => {
+    it.each([
+        ['{title}.{ext}', 'must contain {track}'],
+        ['{title}.{track}', 'must contain {ext}'],
+        ['{title.{track}.{ext}', 'Invalid placeholder'],
+        ['<{title}<x>>.{track}.{ext}', 'cannot be nested'],
+        ['{season:x}.{track}.{ext}', 'Invalid padding'],
+        ['../{track}.{ext}', 'stay inside /output'],
+        ['{}.{track}.{ext}', 'Empty placeholder'],
+    ])('rejects %s', (source, message) => {
+        expect(() => parseFilenameTemplate(source)).toThrow(message);
+    });
+
+    it('accepts {index} and {variant} instead of {track}', () => {
+        expect(() => parseFilenameTemplate('{cid}.{index}{variant}.{ext}')).not.toThrow();
+    });
+});
+
+describe('sanitizeFilename', () => {
+    it('removes forbidden characters and collapses whitespace', () => {
+        expect(sanitizeFilename(' What?  A <Movie>: Part 1/2 ')).toBe('What A Movie Part 12');
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { isKnownLanguage, isLanguageStyle, normalizeLanguage, primaryLanguage } from '../src/language.js';
+
+describe('normalizeLanguage', () => {
+    it('converts codes and names to each style', () => {
+        for (const tag of ['en', 'eng', 'EN', 'English', 'en_US']) {
+            expect(normalizeLanguage(tag, 'iso639-2')).toBe('eng');
+            expect(normalizeLanguage(tag, 'iso639-1')).toBe('en');
+        }
+    });
+
+    it('uses the bibliographic three-letter code', () => {
+        expect(normalizeLanguage('fra', 'iso639-2')).toBe('fre');
+        expect(normalizeLanguage('de', 'iso639-2')).toBe('ger');
+    });
+
+    it('keeps script and region subtags only in bcp47', () => {
+        expect(normalizeLanguage('zh_hans_cn', 'bcp47')).toBe('zh-Hans-CN');
+        expect(normalizeLanguage('eng-us', 'bcp47')).toBe('en-US');
+        expect(normalizeLanguage('en-US', 'iso639-1')).toBe('en');
+    });
+
+    it('drops empty, undetermined and malformed tags', () => {
+        for (const tag of [undefined, '', ' ', 'und', 'mul', 'zxx', 'english please', '1234']) {
+            expect(normalizeLanguage(tag, 'iso639-2')).toBeUndefined();
+        }
+    });
+
+    it('keeps unknown but well-formed codes lowercased', () => {
+        expect(normalizeLanguage('XX', 'iso639-2')).toBe('xx');
+        expect(isKnownLanguage('xx')).toBe(false);
+        expect(isKnownLanguage('English')).toBe(true);
+    });
+});
+
+describe('primaryLanguage', () => {
+    it('compares tags by their primary language', () => {
+        expect(primaryLanguage('en-GB')).toBe(primaryLanguage('English'));
+    });
+});
+
+describe('isLanguageStyle', () => {
+    it('accepts only the known styles', () => {
+        expect(isLanguageStyle('bcp47')).toBe(true);
+        expect(isLanguageStyle('iso639-3')).toBe(false);
+        expect(isLanguageStyle(undefined)).toBe(false);
+    });
+});
@@ -0,0 +1,148 @@
+import { chmodSync, existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Job } from '../src/jobs.js';
+import { StaticOcrProvider } from '../src/ocr.js';
+import type { CallbackPayload, ProcessRequest } from '../src/types.js';
+
+// One PGS segment: "PG", PTS and DTS in 90 kHz ticks, type, size, payload
+function pgsSegment(type: number, ptsMs: number, payload: Buffer): Buffer {
+    const header = Buffer.alloc(13);
+    header.write('PG', 0, 'latin1');
+    header.writeUInt32BE(ptsMs * 90, 2);
+    header[10] = type;
+    header.writeUInt16BE(payload.length, 11);
+    return Buffer.concat([header, payload]);
+}
+
+// A 4x2 white box shown from `startMs` to `endMs`
+function pgsSubtitle(startMs: number, endMs: number): Buffer {
+    const composition = Buffer.from([0x07, 0x80, 0x04, 0x38, 0x10, 0x00, 0x01, 0x80, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x64, 0x03, 0x84]);
+    const palette = Buffer.from([0x00, 0x00, 0x01, 235, 128, 128, 255]);
+    const rle = Buffer.from([1, 1, 1, 1, 0, 0, 1, 1, 1, 1, 0, 0]);
+    const object = Buffer.concat([Buffer.from([0x00, 0x00, 0x00, 0xc0, 0x00, 0x00, rle.length + 4, 0x00, 0x04, 0x00, 0x02]), rle]);
+    const clear = Buffer.from([0x07, 0x80, 0x04, 0x38, 0x10, 0x00, 0x02, 0x00, 0x00, 0x00, 0x00]);
+    return Buffer.concat([
+        pgsSegment(0x16, startMs, composition),
+        pgsSegment(0x14, startMs, palette),
+        pgsSegment(0x15, startMs, object),
+        pgsSegment(0x80, startMs, Buffer.alloc(0)),
+        pgsSegment(0x16, endMs, clear),
+        pgsSegment(0x80, endMs, Buffer.alloc(0)),
+    ]);
+}
+
+const FRENCH_SRT = '1\n00:00:01,000 --> 00:00:03,000\nBonjour.\n\n2\n00:00:05,000 --> 00:00:07,000\nAu revoir.\n';
+
+// Stands in for ffmpeg: writes the fixture matching each output's extension, or hangs on Slow.mkv
+const FAKE_FFMPEG = `#!/usr/bin/env node
+const { copyFileSync, writeFileSync } = require('fs');
+const args = process.argv.slice(2);
+if (args.some(arg => arg.includes('Slow.mkv'))) {
+    setTimeout(() => {}, 60000);
+} else {
+    for (let i = args.indexOf('-map'); i !== -1; i = args.indexOf('-map', i + 1)) {
+        const output = args[i + 4];
+        if (output.endsWith('.sup')) copyFileSync(process.env.FAKE_SUP, output);
+        else writeFileSync(output, ${JSON.stringify(FRENCH_SRT)});
+    }
+}
+`;
+
+const STREAMS = JSON.stringify([
+    { index: 0, codec_type: 'video', codec_name: 'h264' },
+    { index: 1, codec_type: 'subtitle', codec_name: 'hdmv_pgs_subtitle', tags: { language: 'eng' } },
+    { index: 2, codec_type: 'subtitle', codec_name: 'subrip', tags: { language: 'fre' } },
+]);
+
+describe('process', () => {
+    let root: string;
+    let server: Server;
+    const metaRequests: Array<{ method?: string; url?: string; body: string }> = [];
+    let plugin: typeof import('../src/plugin.js');
+
+    beforeAll(async () => {
+        root = mkdtempSync(path.join(tmpdir(), 'subtitle-pipeline-'));
+        for (const dir of ['bin', 'output', 'cache', 'files']) mkdirSync(path.join(root, dir));
+        writeFileSync(path.join(root, 'bin', 'ffmpeg'), FAKE_FFMPEG);
+        chmodSync(path.join(root, 'bin', 'ffmpeg'), 0o755);
+        writeFileSync(path.join(root, 'movie.sup'), Buffer.concat([pgsSubtitle(1000, 3000), pgsSubtitle(5000, 7000)]));
+        writeFileSync(path.join(root, 'files', 'Movie.mkv'), '');
+        writeFileSync(path.join(root, 'files', 'Slow.mkv'), '');
+
+        vi.stubEnv('PATH', `${path.join(root, 'bin')}${path.delimiter}${process.env.PATH}`);
+        vi.stubEnv('FAKE_SUP', path.join(root, 'movie.sup'));
+        vi.stubEnv('OUTPUT_PATH', path.join(root, 'output'));
+        vi.stubEnv('CACHE_PATH', path.join(root, 'cache'));
+        plugin = await import('../src/plugin.js');
+
+        server = createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => { body += chunk; });
+            req.on('end', () => {
+                metaRequests.push({ method: req.method, url: req.url, body });
+                res.setHeader('Content-Type', 'application/json');
+                res.end('{}');
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    });
+
+    const request = (cid: string, fileName: string): ProcessRequest => ({
+        taskId: `task-${cid}`,
+        cid,
+        filePath: path.join(root, 'files', fileName),
+        callbackUrl: 'http://127.0.0.1:1/callback',
+        metaCoreUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        existingMeta: { fileType: 'video', title: 'Movie', streams: STREAMS },
+    });
+
+    afterAll(async () => {
+        vi.unstubAllEnvs();
+        await new Promise(resolve => server.close(resolve));
+        rmSync(root, { recursive: true, force: true });
+    });
+
+    it('extracts text tracks and converts PGS tracks with the OCR provider', async () => {
+        plugin.configure({ ocrBitmapSubtitles: true, detectLanguage: false, qualityDropThreshold: 0 });
+        plugin.setOcrProvider(new StaticOcrProvider(undefined, 0.8));
+
+        const callbacks: CallbackPayload[] = [];
+        await plugin.process(request('video-cid', 'Movie.mkv'), async (payload) => { callbacks.push(payload); });
+
+        expect(callbacks.map(c => c.status)).toEqual(['completed']);
+        const output = path.join(root, 'output');
+        expect(readdirSync(output).sort()).toEqual(['Movie[video-cid]_subtitle.eng.srt', 'Movie[video-cid]_subtitle.fre.srt']);
+        expect(readFileSync(path.join(output, 'Movie[video-cid]_subtitle.eng.srt'), 'utf-8')).toBe(
+            '1\n00:00:01,000 --> 00:00:03,000\nSubtitle line 1\n\n2\n00:00:05,000 --> 00:00:07,000\nSubtitle line 2\n'
+        );
+        expect(readFileSync(path.join(output, 'Movie[video-cid]_subtitle.fre.srt'), 'utf-8')).toBe(FRENCH_SRT);
+
+        // The OCR'd file is marked with the provider's confidence
+        const reverse = metaRequests.filter(r => r.method === 'PATCH' && r.url !== '/meta/video-cid').map(r => JSON.parse(r.body));
+        expect(reverse).toContainEqual(expect.objectContaining({ subtitleOf: 'video-cid', subtitleLanguage: 'eng', subtitleOcrConfidence: '0.8' }));
+        expect(reverse.find(r => r.subtitleLanguage === 'fre')).not.toHaveProperty('subtitleOcrConfidence');
+    });
+
+    it('records nothing for a job cancelled during extraction', async () => {
+        plugin.configure({ detectLanguage: false, qualityDropThreshold: 0 });
+        const slow = request('slow-cid', 'Slow.mkv');
+        const job = new Job(slow);
+        job.start();
+
+        const callbacks: CallbackPayload[] = [];
+        const running = plugin.process(slow, async (payload) => { callbacks.push(payload); }, job);
+        await vi.waitFor(() => expect(job.currentStep).toMatch(/^Extracting/));
+        job.cancel();
+        await running;
+
+        expect(callbacks.map(c => [c.status, c.error])).toEqual([['failed', 'Cancelled']]);
+        expect(job.state).toBe('cancelled');
+        expect(metaRequests.filter(r => r.url?.startsWith('/meta/slow-cid') && r.method !== 'GET')).toEqual([]);
+        expect(existsSync(path.join(root, 'cache', 'output-manifests', 'slow-cid.json'))).toBe(false);
+        expect(readdirSync(path.join(root, 'output')).filter(name => name.includes('slow-cid'))).toEqual([]);
+    });
+});
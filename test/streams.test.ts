@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { buildTrackSuffixes, claimTrackSuffix, closedCaptionStream, parseSubtitleStreams, trackId, type SubtitleStream } from '../src/streams.js';
+
+function stream(index: number, language: string | undefined, extra: Partial<SubtitleStream> = {}): SubtitleStream {
+    return { index, codec: 'subrip', language, forced: false, sdh: false, commentary: false, ...extra };
+}
+
+describe('parseSubtitleStreams', () => {
+    it('reads subtitle streams and their flags from the ffmpeg stream list', () => {
+        const streams = JSON.stringify([
+            { index: 0, codec_type: 'video', codec_name: 'h264' },
+            { index: 2, codec_type: 'subtitle', codec_name: 'subrip', tags: { language: 'eng' }, disposition: { forced: 1 } },
+            { index: 3, codec_type: 'subtitle', codec_name: 'ass', tags: { language: 'fre', title: 'SDH' } },
+        ]);
+        const parsed = parseSubtitleStreams({ streams });
+        expect(parsed.map(s => [s.index, s.streamIndex, s.codec, s.language, s.forced, s.sdh])).toEqual([
+            [0, 2, 'subrip', 'eng', true, false],
+            [1, 3, 'ass', 'fre', false, true],
+        ]);
+    });
+});
+
+describe('buildTrackSuffixes', () => {
+    it('appends the track id when two tracks would share a name', () => {
+        const first = stream(0, 'eng');
+        const second = stream(1, 'eng');
+        const forced = stream(2, 'eng', { forced: true });
+        const untagged = stream(3, undefined);
+        const suffixes = buildTrackSuffixes([second, untagged, forced, first]);
+        expect(suffixes.get(first)).toBe('.eng');
+        expect(suffixes.get(second)).toBe('.eng.1');
+        expect(suffixes.get(forced)).toBe('.eng.forced');
+        expect(suffixes.get(untagged)).toBe('.3');
+    });
+
+    it('names embedded tracks before sidecars and captions with overlapping numbers', () => {
+        const embeddedFre = stream(0, 'fre');
+        const sidecarEng = stream(0, 'eng', { externalPath: '/files/Movie.en.srt' });
+        const embeddedEng = stream(1, 'eng');
+        const caption = { ...closedCaptionStream(), language: 'eng' };
+        const suffixes = buildTrackSuffixes([embeddedFre, sidecarEng, embeddedEng, caption]);
+        expect(suffixes.get(embeddedFre)).toBe('.fre');
+        expect(suffixes.get(embeddedEng)).toBe('.eng');
+        expect(suffixes.get(sidecarEng)).toBe('.eng.ext0');
+        expect(suffixes.get(caption)).toBe('.eng.cc');
+    });
+
+    it('keeps embedded names whether or not a sidecar is present', () => {
+        const embedded = [stream(0, 'fre'), stream(1, 'eng')];
+        const without = buildTrackSuffixes(embedded);
+        const withSidecar = buildTrackSuffixes([...embedded, stream(0, 'eng', { externalPath: '/files/Movie.en.srt' })]);
+        expect(embedded.map(s => withSidecar.get(s))).toEqual(embedded.map(s => without.get(s)));
+    });
+});
+
+describe('claimTrackSuffix', () => {
+    it('skips names already in use', () => {
+        const used = new Set(['.eng']);
+        const sidecar = stream(2, 'eng', { externalPath: '/files/Movie.en.srt' });
+        expect(claimTrackSuffix(sidecar, used)).toBe('.eng.ext2');
+        expect(used.has('.eng.ext2')).toBe(true);
+        expect(trackId(sidecar)).toBe('ext2');
+    });
+});
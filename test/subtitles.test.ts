@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { convertSubtitle, formatAssTimestamp, parseAss, parseSrt, parseTimestamp, parseVtt, serializeAss, serializeSrt, serializeVtt } from '../src/subtitles.js';
+
+const SRT = `1
+00:00:01,000 --> 00:00:02,500
+<i>Hello</i> there
+
+2
+00:00:03,000 --> 00:00:04,000
+{\\an8}Top line
+Second line
+`;
+
+const VTT = `WEBVTT
+
+NOTE a comment
+
+00:01.000 --> 00:02.500 align:start line:10%
+Hello &amp; welcome
+
+00:00:03.000 --> 00:00:04.000
+<v Bob>Two</v>
+`;
+
+const ASS = `[Script Info]
+ScriptType: v4.00+
+PlayResX: 1920
+PlayResY: 1080
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+Style: Default,Arial,48,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,2,0,2,10,10,10,1
+Style: Sign,Arial,40,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,2,0,8,10,10,10,1
+
+[Fonts]
+fontname: custom_0.ttf
+M8%!$1@;V%P96X*
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Dialogue: 0,0:00:01.00,0:00:02.50,Default,,0,0,0,,{\\i1}Hello{\\i0}, world
+Dialogue: 5,0:00:03.00,0:00:04.00,Sign,Bob,100,0,50,Banner;20,{\\pos(960,100)}A sign
+`;
+
+describe('timestamps', () => {
+    it('parses SRT, VTT and ASS timestamps', () => {
+        expect(parseTimestamp('01:02:03,456')).toBe(3723456);
+        expect(parseTimestamp('02:03.456')).toBe(123456);
+        expect(parseTimestamp('0:00:01.50')).toBe(1500);
+        expect(parseTimestamp('nonsense')).toBeNull();
+    });
+
+    it('rounds ASS timestamps to centiseconds', () => {
+        expect(formatAssTimestamp(3723456)).toBe('1:02:03.46');
+    });
+});
+
+describe('SRT', () => {
+    it('round-trips cues, markup and alignment', () => {
+        const doc = parseSrt(SRT);
+        expect(doc.cues).toHaveLength(2);
+        expect(doc.cues[0]).toMatchObject({ start: 1000, end: 2500, text: '<i>Hello</i> there' });
+        expect(doc.cues[1]).toMatchObject({ text: 'Top line\nSecond line', position: { alignment: 8 } });
+        expect(serializeSrt(doc)).toBe(SRT);
+        expect(parseSrt(serializeSrt(doc)).cues).toEqual(doc.cues);
+    });
+});
+
+describe('WebVTT', () => {
+    it('reads settings, entities and voices', () => {
+        const doc = parseVtt(VTT);
+        expect(doc.cues).toHaveLength(2);
+        expect(doc.cues[0]).toMatchObject({ start: 1000, end: 2500, text: 'Hello & welcome', position: { alignment: 7, y: 10 } });
+        expect(doc.cues[1].text).toBe('Two');
+    });
+
+    it('round-trips through its own serializer', () => {
+        const doc = parseVtt(VTT);
+        const output = serializeVtt(doc);
+        expect(output.startsWith('WEBVTT')).toBe(true);
+        expect(parseVtt(output).cues).toEqual(doc.cues);
+    });
+});
+
+describe('ASS', () => {
+    it('converts override tags to the common markup', () => {
+        const doc = parseAss(ASS);
+        expect(doc.cues[0].text).toBe('<i>Hello</i>, world');
+        expect(doc.cues[1]).toMatchObject({ style: 'Sign', text: 'A sign', position: { x: 50, y: 9.26 } });
+    });
+
+    it('keeps layers, names, margins, effects and unknown sections on an ASS -> ASS round trip', () => {
+        const output = serializeAss(parseAss(ASS));
+        expect(output).toContain('Dialogue: 5,0:00:03.00,0:00:04.00,Sign,Bob,100,0,50,Banner;20,{\\pos(960,100)}A sign');
+        expect(output).toContain('Dialogue: 0,0:00:01.00,0:00:02.50,Default,,0,0,0,,{\\i1}Hello{\\i0}, world');
+        expect(output).toContain('[Fonts]\nfontname: custom_0.ttf\nM8%!$1@;V%P96X*\n');
+        expect(output.indexOf('[Fonts]')).toBeLessThan(output.indexOf('[Events]'));
+        expect(parseAss(output)).toEqual(parseAss(ASS));
+    });
+
+    it('writes plain events when converting from another format', () => {
+        const output = convertSubtitle(SRT, 'ass', 'srt');
+        expect(output).toContain('Dialogue: 0,0:00:01.00,0:00:02.50,Default,,0,0,0,,{\\i1}Hello{\\i0} there');
+        expect(output).toContain('{\\an8}Top line\\NSecond line');
+        expect(output).not.toContain('[Fonts]');
+    });
+
+    it('keeps text and timing through ASS -> SRT -> ASS', () => {
+        const doc = parseAss(ASS);
+        const back = parseAss(convertSubtitle(serializeSrt(doc), 'ass', 'srt'));
+        expect(back.cues.map(c => [c.start, c.end, c.text])).toEqual(doc.cues.map(c => [c.start, c.end, c.text]));
+    });
+});
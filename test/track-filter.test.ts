@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { describeExcluded, filterTracks, parseList, parseTrackFilterConfig } from '../src/track-filter.js';
+import type { SubtitleStream } from '../src/streams.js';
+
+function stream(index: number, language: string | undefined, extra: Partial<SubtitleStream> = {}): SubtitleStream {
+    return { index, codec: 'subrip', language, forced: false, sdh: false, commentary: false, ...extra };
+}
+
+describe('parseList', () => {
+    it('accepts arrays and comma-separated strings', () => {
+        expect(parseList(' EN, fre ,,')).toEqual(['en', 'fre']);
+        expect(parseList(['de', ' It '])).toEqual(['de', 'it']);
+        expect(parseList(undefined)).toEqual([]);
+    });
+});
+
+describe('filterTracks', () => {
+    it('matches languages whatever code style they use', () => {
+        const config = parseTrackFilterConfig({ languageAllowList: 'en,fr' });
+        const streams = [stream(0, 'eng'), stream(1, 'fre'), stream(2, 'ger'), stream(3, 'en-US')];
+        const { selected, excluded } = filterTracks(streams, config);
+        expect(selected.map(s => s.index)).toEqual([0, 1, 3]);
+        expect(excluded).toEqual([{ stream: streams[2], filter: 'languageAllowList' }]);
+    });
+
+    it('applies the deny list and flag filters', () => {
+        const config = parseTrackFilterConfig({ languageDenyList: ['spa'], skipForced: true, skipSdh: true, skipCommentary: true });
+        const streams = [
+            stream(0, 'spa'),
+            stream(1, 'eng', { forced: true }),
+            stream(2, 'eng', { sdh: true }),
+            stream(3, 'eng', { commentary: true }),
+            stream(4, 'eng'),
+        ];
+        const { selected, excluded } = filterTracks(streams, config);
+        expect(selected.map(s => s.index)).toEqual([4]);
+        expect(excluded.map(e => e.filter)).toEqual(['languageDenyList', 'skipForced', 'skipSdh', 'skipCommentary']);
+    });
+
+    it('caps tracks per language across embedded, sidecar, caption and image-based tracks', () => {
+        const config = parseTrackFilterConfig({ maxTracksPerLanguage: 2 });
+        const streams = [
+            stream(0, 'eng'),
+            stream(0, 'eng', { externalPath: '/files/Movie.en.srt' }),
+            stream(0, 'eng', { cc: true }),
+            stream(1, 'eng', { codec: 'hdmv_pgs_subtitle' }),
+        ];
+        const { selected, excluded } = filterTracks(streams, config);
+        expect(selected).toEqual(streams.slice(0, 2));
+        expect(describeExcluded(excluded)).toBe('track cc0 (eng): maxTracksPerLanguage; track 1 (eng): maxTracksPerLanguage');
+    });
+});